@@ -0,0 +1,6 @@
+import type { ClientIpOptions } from '../src/types';
+
+export declare function getClientIp(
+  eventOrRequest: { headers?: Record<string, string | undefined> | Headers } | Request,
+  options?: ClientIpOptions
+): string | null;
@@ -0,0 +1,131 @@
+/**
+ * Headers carrying the client IP, most trustworthy first. Netlify sets
+ * `x-nf-client-connection-ip` itself, so a client cannot spoof it there. `cf-connecting-ip` and
+ * `x-real-ip` are left out: any client can send them unless Cloudflare or nginx overwrites them.
+ */
+const DEFAULT_IP_HEADERS = ['x-nf-client-connection-ip', 'x-forwarded-for'];
+
+/**
+ * Default number of proxies in front of the function that append to X-Forwarded-For
+ */
+const DEFAULT_TRUSTED_PROXIES = 1;
+
+/**
+ * Work out the client IP of a Netlify function event or a Fetch API Request, for the
+ * `remoteip` sent to siteverify.
+ *
+ * Headers are tried in order (default: x-nf-client-connection-ip, x-forwarded-for), skipping any
+ * whose value is not a valid IPv4 or IPv6 address. In
+ * X-Forwarded-For only the entries appended by the `trustedProxies` closest proxies can be
+ * trusted, so the client is the entry that many places from the right; anything to its left
+ * may have been sent by the client itself.
+ *
+ * @param {{ headers?: Record<string, string | undefined> | Headers } | Request} eventOrRequest
+ * @param {import('../src/types').ClientIpOptions} options
+ * @returns {string | null} Client IP without port or brackets, or null
+ */
+function getClientIp(eventOrRequest, options = {}) {
+  const { headers: names = DEFAULT_IP_HEADERS, trustedProxies = DEFAULT_TRUSTED_PROXIES } = options;
+  const headers = (eventOrRequest && eventOrRequest.headers) || {};
+
+  for (const name of names) {
+    const value = readHeader(headers, name.toLowerCase());
+    if (!value) {
+      continue;
+    }
+
+    const ip = name.toLowerCase() === 'x-forwarded-for'
+      ? pickForwardedFor(value, trustedProxies)
+      : normalizeIp(value);
+    if (ip) {
+      return ip;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pick the client from an X-Forwarded-For chain ("client, proxy1, proxy2")
+ * @param {string} value
+ * @param {number} trustedProxies
+ * @returns {string | null}
+ */
+function pickForwardedFor(value, trustedProxies) {
+  const entries = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (entries.length === 0) {
+    return null;
+  }
+  // With fewer entries than trusted proxies, the leftmost is as far as the chain goes
+  const index = trustedProxies > 0 ? Math.max(entries.length - trustedProxies, 0) : 0;
+  return normalizeIp(entries[index]);
+}
+
+/**
+ * Strip brackets and port from an address and validate it
+ * @param {string} value - e.g. '203.0.113.7', '203.0.113.7:443', '[2001:db8::1]:443'
+ * @returns {string | null} The address, or null if it is not a valid IPv4 or IPv6 address
+ */
+function normalizeIp(value) {
+  let ip = String(value).trim();
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(ip);
+  if (bracketed) {
+    ip = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(ip)) {
+    ip = ip.slice(0, ip.lastIndexOf(':'));
+  }
+
+  return isIPv4(ip) || isIPv6(ip) ? ip : null;
+}
+
+/**
+ * @param {string} value
+ * @returns {boolean} Whether the value is a dotted-quad IPv4 address
+ */
+function isIPv4(value) {
+  const parts = value.split('.');
+  return parts.length === 4 && parts.every((part) => /^(0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255);
+}
+
+/**
+ * @param {string} value
+ * @returns {boolean} Whether the value is an IPv6 address, optionally with a zone ID or embedded IPv4
+ */
+function isIPv6(value) {
+  const address = value.split('%')[0];
+  if (value.includes('%') && !/^%[\w.-]+$/.test(value.slice(address.length))) {
+    return false;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')));
+  const last = groups[groups.length - 1];
+  // An embedded IPv4 address (e.g. ::ffff:192.0.2.1) takes the place of two groups
+  const embeddedIPv4 = last !== undefined && last.includes('.') && address.endsWith(last);
+  if (embeddedIPv4 && !isIPv4(last)) {
+    return false;
+  }
+
+  const hexGroups = embeddedIPv4 ? groups.slice(0, -1) : groups;
+  if (!hexGroups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return false;
+  }
+
+  const size = hexGroups.length + (embeddedIPv4 ? 2 : 0);
+  return halves.length === 2 ? size < 8 : size === 8;
+}
+
+function readHeader(headers, name) {
+  if (typeof headers.get === 'function') {
+    return headers.get(name) || undefined;
+  }
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+module.exports = { getClientIp };
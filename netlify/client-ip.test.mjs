@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+
+describe('client-ip', () => {
+  const event = (headers) => ({ httpMethod: 'POST', headers });
+
+  it('should prefer the Netlify connection IP over client-controlled headers', async () => {
+    const { getClientIp } = await import('./client-ip.js');
+
+    expect(
+      getClientIp(
+        event({
+          'X-Forwarded-For': '198.51.100.1',
+          'cf-connecting-ip': '198.51.100.2',
+          'x-nf-client-connection-ip': '203.0.113.7',
+        })
+      )
+    ).toBe('203.0.113.7');
+  });
+
+  it('should fall back to x-forwarded-for and ignore client-settable headers by default', async () => {
+    const { getClientIp } = await import('./client-ip.js');
+    const spoofed = { 'cf-connecting-ip': '6.6.6.6', 'x-real-ip': '6.6.6.7' };
+
+    expect(getClientIp(event({ ...spoofed, 'x-forwarded-for': '203.0.113.3' }))).toBe('203.0.113.3');
+    expect(getClientIp(event(spoofed))).toBeNull();
+    expect(getClientIp(event({}))).toBeNull();
+    expect(getClientIp({})).toBeNull();
+  });
+
+  it('should read cf-connecting-ip and x-real-ip when opted in', async () => {
+    const { getClientIp } = await import('./client-ip.js');
+    const headers = ['cf-connecting-ip', 'x-real-ip', 'x-forwarded-for'];
+
+    expect(getClientIp(event({ 'cf-connecting-ip': '203.0.113.1', 'x-real-ip': '203.0.113.2' }), { headers })).toBe('203.0.113.1');
+    expect(getClientIp(event({ 'x-real-ip': '203.0.113.2', 'x-forwarded-for': '203.0.113.3' }), { headers })).toBe('203.0.113.2');
+  });
+
+  it('should read x-forwarded-for from the right, past the trusted proxies', async () => {
+    const { getClientIp } = await import('./client-ip.js');
+    // spoofed by the client, then appended by two proxies
+    const chain = event({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 10.0.0.2' });
+
+    expect(getClientIp(chain)).toBe('10.0.0.2');
+    expect(getClientIp(chain, { trustedProxies: 2 })).toBe('203.0.113.7');
+    expect(getClientIp(chain, { trustedProxies: 5 })).toBe('6.6.6.6');
+    expect(getClientIp(chain, { trustedProxies: 0 })).toBe('6.6.6.6');
+  });
+
+  it('should skip invalid addresses', async () => {
+    const { getClientIp } = await import('./client-ip.js');
+
+    expect(getClientIp(event({ 'x-nf-client-connection-ip': 'unknown', 'x-forwarded-for': '203.0.113.2' }))).toBe('203.0.113.2');
+    for (const value of ['256.1.1.1', '1.2.3', '01.2.3.4', '1:2:3:4:5:6:7:8:9', '1::2::3', 'fe80::g', '1.2.3.4::', '<script>']) {
+      expect(getClientIp(event({ 'x-nf-client-connection-ip': value })), value).toBeNull();
+    }
+  });
+
+  it('should accept IPv6 and strip ports and brackets', async () => {
+    const { getClientIp } = await import('./client-ip.js');
+    const ip = (value) => getClientIp(event({ 'x-nf-client-connection-ip': value }));
+
+    expect(ip('2001:db8::1')).toBe('2001:db8::1');
+    expect(ip('2001:0db8:0000:0000:0000:ff00:0042:8329')).toBe('2001:0db8:0000:0000:0000:ff00:0042:8329');
+    expect(ip('::1')).toBe('::1');
+    expect(ip('::ffff:192.0.2.1')).toBe('::ffff:192.0.2.1');
+    expect(ip('fe80::1%eth0')).toBe('fe80::1%eth0');
+    expect(ip('[2001:db8::1]:443')).toBe('2001:db8::1');
+    expect(ip('203.0.113.7:8080')).toBe('203.0.113.7');
+  });
+
+  it('should read Fetch API Request headers', async () => {
+    const { getClientIp } = await import('./client-ip.js');
+    const request = new Request('https://example.com/api', {
+      headers: { 'X-Forwarded-For': '198.51.100.1, 203.0.113.7' },
+    });
+
+    expect(getClientIp(request)).toBe('203.0.113.7');
+    expect(getClientIp(request, { headers: ['x-real-ip'] })).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import type {
+  SiteverifyErrorCode,
+  TurnstileErrorInfo,
+  TurnstilePublicErrorDetails,
+  TurnstileServerMessages,
+  VerificationFailureReason,
+  VerificationResult,
+} from '../src/types';
+
+export declare const TURNSTILE_ERROR_HEADER: 'X-Turnstile-Error';
+
+export declare const SITEVERIFY_ERRORS: Record<
+  SiteverifyErrorCode,
+  Omit<TurnstileErrorInfo, 'code' | 'userMessage'> & { message: keyof TurnstileServerMessages }
+>;
+export declare function getSiteverifyError(code: string, locale?: string | null): TurnstileErrorInfo;
+export declare function getErrorDetails(result: VerificationResult, locale?: string | null): TurnstileErrorInfo[];
+export declare function getPublicErrorDetails(verification: VerificationResult): TurnstilePublicErrorDetails | null;
+export declare function getFailureStatus(reason: VerificationFailureReason): number;
+export declare function getFailureResponse(verification: VerificationResult): {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+};
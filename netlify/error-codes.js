@@ -0,0 +1,184 @@
+const { getTurnstileMessages } = require('./messages');
+
+/**
+ * Error codes returned by siteverify (mirrors SITEVERIFY_ERRORS in src/turnstile-errors.ts).
+ * `message` names the user message in netlify/messages.js.
+ */
+const SITEVERIFY_ERRORS = {
+  'missing-input-secret': {
+    category: 'configuration',
+    retryable: false,
+    developerMessage: 'The secret key was not sent to siteverify. Set TURNSTILE_SECRET_KEY.',
+    message: 'unavailable',
+  },
+  'invalid-input-secret': {
+    category: 'configuration',
+    retryable: false,
+    developerMessage: 'The secret key is invalid or does not exist. Check TURNSTILE_SECRET_KEY.',
+    message: 'unavailable',
+  },
+  'missing-input-response': {
+    category: 'token',
+    retryable: true,
+    developerMessage: 'No token was sent: the form was submitted before the challenge completed, or the token field is missing.',
+    message: 'completeChallenge',
+  },
+  'invalid-input-response': {
+    category: 'challenge',
+    retryable: true,
+    developerMessage: 'The token is invalid or malformed; it may be forged or come from another site key.',
+    message: 'failed',
+  },
+  'bad-request': {
+    category: 'configuration',
+    retryable: false,
+    developerMessage: 'siteverify rejected the request as malformed. Send the parameters as form data or JSON.',
+    message: 'unavailable',
+  },
+  'timeout-or-duplicate': {
+    category: 'token',
+    retryable: true,
+    developerMessage: 'The token has expired (after 5 minutes) or was already verified once.',
+    message: 'tokenExpired',
+  },
+  'internal-error': {
+    category: 'internal',
+    retryable: true,
+    developerMessage: 'siteverify failed internally; retry the request.',
+    message: 'temporarilyUnavailable',
+  },
+};
+
+/**
+ * Siteverify code equivalent to a failure detected before or instead of siteverify's answer
+ */
+const REASON_CODES = {
+  'missing-secret': 'missing-input-secret',
+  misconfigured: 'invalid-input-secret',
+  'missing-token': 'missing-input-response',
+  'token-already-used': 'timeout-or-duplicate',
+  'siteverify-unavailable': 'internal-error',
+  'siteverify-timeout': 'internal-error',
+  'verification-error': 'internal-error',
+};
+
+/**
+ * Response header naming the failure reason, recognised by turnstileFetch on the client
+ */
+const TURNSTILE_ERROR_HEADER = 'X-Turnstile-Error';
+
+/**
+ * HTTP status of a failed verification by reason. A rejected token, and any reason not listed, is a 403.
+ */
+const FAILURE_STATUS = {
+  'missing-token': 400,
+  'rate-limited': 429,
+  // Caused by configuration or Cloudflare rather than the visitor
+  'missing-secret': 500,
+  misconfigured: 500,
+  'siteverify-unavailable': 503,
+  'siteverify-timeout': 503,
+  'verification-error': 503,
+};
+
+/**
+ * Look up a siteverify error code
+ * @param {string} code - Error code from siteverify's `error-codes`
+ * @param {string} [locale] - Locale of the user message (default: 'en')
+ * @returns {import('../src/types').TurnstileErrorInfo}
+ */
+function getSiteverifyError(code, locale) {
+  const { message, ...info } = Object.prototype.hasOwnProperty.call(SITEVERIFY_ERRORS, code)
+    ? SITEVERIFY_ERRORS[code]
+    : {
+      category: 'unknown',
+      retryable: true,
+      developerMessage: `Unknown Turnstile error code: ${code}.`,
+      message: 'failed',
+    };
+
+  return { code, ...info, userMessage: getTurnstileMessages(locale)[message] };
+}
+
+/**
+ * Describe why a verification failed: one entry per siteverify error code, or the entry of
+ * the code matching the failure reason. Policy failures (hostname, action, token age) and
+ * rate-limited requests have none.
+ * @param {import('../src/types').VerificationResult} result
+ * @param {string} [locale] - Locale of the user messages (default: 'en')
+ * @returns {import('../src/types').TurnstileErrorInfo[]}
+ */
+function getErrorDetails(result, locale) {
+  if (result.errorCodes && result.errorCodes.length > 0) {
+    return result.errorCodes.map((code) => getSiteverifyError(code, locale));
+  }
+  const code = REASON_CODES[result.reason];
+  return code ? [getSiteverifyError(code, locale)] : [];
+}
+
+/**
+ * The part of a failure's first catalog entry that is safe to send to the browser
+ * (the developer message may name environment variables and stays in the logs)
+ * @param {import('../src/types').VerificationResult} verification
+ * @returns {import('../src/types').TurnstilePublicErrorDetails | null}
+ */
+function getPublicErrorDetails(verification) {
+  const [first] = verification.errorDetails || [];
+  if (!first) {
+    return null;
+  }
+  return {
+    code: first.code,
+    category: first.category,
+    retryable: first.retryable,
+    userMessage: first.userMessage,
+  };
+}
+
+/**
+ * @param {import('../src/types').VerificationFailureReason} reason
+ * @returns {number} HTTP status to answer a failed verification with
+ */
+function getFailureStatus(reason) {
+  return Object.prototype.hasOwnProperty.call(FAILURE_STATUS, reason) ? FAILURE_STATUS[reason] : 403;
+}
+
+/**
+ * Build the default JSON failure response shared by withTurnstile and createTurnstileFailureResponse:
+ * `{ success: false, error, reason, errorCodes?, details?, retryAfter? }` with the `X-Turnstile-Error`
+ * header, and `Retry-After` for a rate-limited client
+ * @param {import('../src/types').VerificationResult} verification - Failed verification result
+ * @returns {{ status: number, headers: Record<string, string>, body: string }}
+ */
+function getFailureResponse(verification) {
+  const reason = verification.reason || 'verification-error';
+  const details = getPublicErrorDetails(verification);
+  const { retryAfter } = verification;
+
+  return {
+    status: getFailureStatus(reason),
+    headers: {
+      'Content-Type': 'application/json',
+      [TURNSTILE_ERROR_HEADER]: reason,
+      ...(retryAfter ? { 'Retry-After': String(retryAfter) } : {}),
+    },
+    body: JSON.stringify({
+      success: false,
+      error: verification.error,
+      reason,
+      ...(verification.errorCodes ? { errorCodes: verification.errorCodes } : {}),
+      ...(details ? { details } : {}),
+      ...(retryAfter ? { retryAfter } : {}),
+    }),
+  };
+}
+
+module.exports = {
+  getSiteverifyError,
+  getErrorDetails,
+  getPublicErrorDetails,
+  getFailureStatus,
+  getFailureResponse,
+  SITEVERIFY_ERRORS,
+  TURNSTILE_ERROR_HEADER,
+};
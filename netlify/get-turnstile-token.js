@@ -1,4 +1,28 @@
 const busboy = require('busboy');
+const { getTurnstileLogger } = require('./telemetry');
+
+/**
+ * Body fields the widget and client helpers submit the token under
+ */
+const TOKEN_FIELDS = ['cf-turnstile-response', 'cfTurnstileResponse'];
+
+/**
+ * Default limit for each buffered multipart file (4 MB, below Netlify's 6 MB request limit)
+ */
+const DEFAULT_MAX_FILE_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Thrown by parseTurnstileRequest when an uploaded file exceeds `maxFileSize`
+ */
+class FileTooLargeError extends Error {
+  constructor(fieldName, filename, limit) {
+    super(`File "${filename}" in field "${fieldName}" exceeds the ${limit} byte limit`);
+    this.name = 'FileTooLargeError';
+    this.fieldName = fieldName;
+    this.filename = filename;
+    this.limit = limit;
+  }
+}
 
 /**
  * Extract the Cloudflare Turnstile token from an incoming Netlify function event.
@@ -38,7 +62,7 @@ async function getTurnstileToken(event) {
         null
       );
     } catch (error) {
-      console.error('Failed to parse JSON body while extracting Turnstile token:', error);
+      getTurnstileLogger().error('Failed to parse JSON body while extracting Turnstile token:', error);
       return null;
     }
   }
@@ -46,6 +70,119 @@ async function getTurnstileToken(event) {
   return null;
 }
 
+/**
+ * Parse an incoming Netlify function event in one pass, returning the Turnstile token together
+ * with the remaining form fields and any uploaded files.
+ * The token field is removed from `fields`, so the fields can be forwarded as they are.
+ *
+ * @param {import('@netlify/functions').HandlerEvent} event
+ * @param {import('../src/types').ParseTurnstileRequestOptions} options - File size limit (optional)
+ * @returns {Promise<import('../src/types').ParsedTurnstileRequest>}
+ * @throws {FileTooLargeError} If an uploaded file exceeds `maxFileSize`
+ */
+async function parseTurnstileRequest(event, options = {}) {
+  const headers = event.headers || {};
+  const headerToken =
+    headers['x-turnstile-token'] ||
+    headers['X-Turnstile-Token'] ||
+    null;
+  const contentType = headers['content-type'] || headers['Content-Type'] || '';
+
+  let parsed = { fields: {}, files: [] };
+
+  if (contentType.includes('multipart/form-data')) {
+    parsed = await parseMultipartRequest(event, contentType, options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE);
+  } else if (contentType.includes('application/x-www-form-urlencoded')) {
+    const params = new URLSearchParams(getTextBody(event));
+    params.forEach((value, name) => addField(parsed.fields, name, value));
+  } else if (contentType.includes('application/json')) {
+    try {
+      const payload = JSON.parse(getTextBody(event));
+      if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+        parsed.fields = { ...payload };
+      }
+    } catch (error) {
+      getTurnstileLogger().error('Failed to parse JSON body while extracting Turnstile token:', error);
+    }
+  }
+
+  let bodyToken = null;
+  TOKEN_FIELDS.forEach((name) => {
+    const value = parsed.fields[name];
+    if (!bodyToken && value) {
+      bodyToken = Array.isArray(value) ? value[0] : value;
+    }
+    delete parsed.fields[name];
+  });
+
+  return {
+    token: headerToken || bodyToken || null,
+    fields: parsed.fields,
+    files: parsed.files,
+  };
+}
+
+async function parseMultipartRequest(event, contentType, maxFileSize) {
+  const fields = {};
+  const files = [];
+
+  await new Promise((resolve, reject) => {
+    const bb = busboy({
+      headers: {
+        'content-type': contentType,
+      },
+      limits: {
+        fileSize: maxFileSize,
+      },
+    });
+
+    bb.on('field', (name, value) => {
+      addField(fields, name, value);
+    });
+
+    bb.on('file', (fieldName, stream, info) => {
+      const chunks = [];
+      stream.on('data', (chunk) => chunks.push(chunk));
+      stream.on('limit', () => {
+        reject(new FileTooLargeError(fieldName, info.filename, maxFileSize));
+        stream.resume();
+      });
+      stream.on('close', () => {
+        if (stream.truncated) return;
+        const content = Buffer.concat(chunks);
+        files.push({
+          fieldName,
+          filename: info.filename,
+          mimeType: info.mimeType,
+          encoding: info.encoding,
+          size: content.length,
+          content,
+        });
+      });
+    });
+
+    bb.on('close', resolve);
+    bb.on('error', reject);
+
+    bb.end(getBodyBuffer(event));
+  });
+
+  return { fields, files };
+}
+
+/**
+ * Add a form field, collecting repeated names (e.g. checkboxes) into an array
+ */
+function addField(fields, name, value) {
+  if (!Object.prototype.hasOwnProperty.call(fields, name)) {
+    fields[name] = value;
+  } else if (Array.isArray(fields[name])) {
+    fields[name].push(value);
+  } else {
+    fields[name] = [fields[name], value];
+  }
+}
+
 async function parseMultipart(event, contentType) {
   let token = null;
 
@@ -92,5 +229,5 @@ function getTextBody(event) {
     : event.body;
 }
 
-module.exports = { getTurnstileToken };
+module.exports = { getTurnstileToken, parseTurnstileRequest, FileTooLargeError };
 
@@ -150,7 +150,116 @@ describe('get-turnstile-token', () => {
     expect(token).toBe(null);
   });
 
-  // Note: multipart/form-data tests would require mocking busboy
-  // which is complex. These are covered by integration tests in actual usage.
+  describe('parseTurnstileRequest', () => {
+    const BOUNDARY = 'turnstile-boundary';
+
+    const multipartEvent = (parts) => ({
+      headers: {
+        'content-type': `multipart/form-data; boundary=${BOUNDARY}`,
+      },
+      body: [
+        ...parts.flatMap(({ name, value, filename, type = 'text/plain' }) => [
+          `--${BOUNDARY}`,
+          filename
+            ? `Content-Disposition: form-data; name="${name}"; filename="${filename}"`
+            : `Content-Disposition: form-data; name="${name}"`,
+          ...(filename ? [`Content-Type: ${type}`] : []),
+          '',
+          value,
+        ]),
+        `--${BOUNDARY}--`,
+        '',
+      ].join('\r\n'),
+      isBase64Encoded: false,
+    });
+
+    it('should return the token, fields and files of a multipart body', async () => {
+      const { parseTurnstileRequest } = await import('./get-turnstile-token.js');
+
+      const result = await parseTurnstileRequest(multipartEvent([
+        { name: 'cf-turnstile-response', value: 'multipart-token' },
+        { name: 'email', value: 'a@example.com' },
+        { name: 'attachment', value: 'hello world', filename: 'notes.txt' },
+      ]));
+
+      expect(result.token).toBe('multipart-token');
+      expect(result.fields).toEqual({ email: 'a@example.com' });
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0]).toMatchObject({
+        fieldName: 'attachment',
+        filename: 'notes.txt',
+        mimeType: 'text/plain',
+        size: 11,
+      });
+      expect(result.files[0].content.toString()).toBe('hello world');
+    });
+
+    it('should reject a file over the size limit', async () => {
+      const { parseTurnstileRequest, FileTooLargeError } = await import('./get-turnstile-token.js');
+
+      const event = multipartEvent([
+        { name: 'cf-turnstile-response', value: 'multipart-token' },
+        { name: 'attachment', value: 'x'.repeat(64), filename: 'large.bin' },
+      ]);
+
+      const error = await parseTurnstileRequest(event, { maxFileSize: 32 }).catch((e) => e);
+      expect(error).toBeInstanceOf(FileTooLargeError);
+      expect(error).toMatchObject({ fieldName: 'attachment', filename: 'large.bin', limit: 32 });
+      expect(error.message).toContain('large.bin');
+    });
+
+    it('should collect repeated urlencoded fields and drop the token field', async () => {
+      const { parseTurnstileRequest } = await import('./get-turnstile-token.js');
+
+      const result = await parseTurnstileRequest({
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: 'name=Ada&topic=sales&topic=support&cf-turnstile-response=form-token',
+        isBase64Encoded: false,
+      });
+
+      expect(result).toEqual({
+        token: 'form-token',
+        fields: { name: 'Ada', topic: ['sales', 'support'] },
+        files: [],
+      });
+    });
+
+    it('should drop both JSON token field names', async () => {
+      const { parseTurnstileRequest } = await import('./get-turnstile-token.js');
+
+      const result = await parseTurnstileRequest({
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ cfTurnstileResponse: 'camel-token', 'cf-turnstile-response': '', message: 'Hi', count: 2 }),
+        isBase64Encoded: false,
+      });
+
+      expect(result.token).toBe('camel-token');
+      expect(result.fields).toEqual({ message: 'Hi', count: 2 });
+    });
+
+    it('should prefer the header token and still strip the body field', async () => {
+      const { parseTurnstileRequest } = await import('./get-turnstile-token.js');
+
+      const result = await parseTurnstileRequest({
+        headers: {
+          'x-turnstile-token': 'header-token',
+          'content-type': 'application/x-www-form-urlencoded',
+        },
+        body: Buffer.from('cf-turnstile-response=form-token&name=Ada').toString('base64'),
+        isBase64Encoded: true,
+      });
+
+      expect(result.token).toBe('header-token');
+      expect(result.fields).toEqual({ name: 'Ada' });
+    });
+
+    it('should return empty fields for an unsupported or missing body', async () => {
+      const { parseTurnstileRequest } = await import('./get-turnstile-token.js');
+
+      const result = await parseTurnstileRequest({ headers: {}, body: null });
+
+      expect(result).toEqual({ token: null, fields: {}, files: [] });
+    });
+  });
 });
 
@@ -0,0 +1,6 @@
+import type { TurnstileServerMessages } from '../src/types';
+
+export declare function addTurnstileMessages(locale: string, messages: Partial<TurnstileServerMessages>): void;
+export declare function getTurnstileMessages(locale?: string | null): TurnstileServerMessages;
+export declare function negotiateTurnstileLocale(acceptLanguage: string | null | undefined): string;
+export declare function resetTurnstileMessages(): void;
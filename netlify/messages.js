@@ -0,0 +1,122 @@
+/**
+ * Locale used when no requested locale has messages
+ */
+const DEFAULT_LOCALE = 'en';
+
+/**
+ * Built-in translations of the server error strings. Visitor-facing text used in the browser
+ * lives in src/turnstile-messages.ts; the messages both share must read the same.
+ */
+const BUILT_IN_MESSAGES = {
+  en: {
+    notConfigured: 'Turnstile verification is not configured',
+    missingToken: 'Turnstile token is missing',
+    failed: 'Security verification failed. Please try again.',
+    error: 'Security verification error. Please try again.',
+    unavailable: 'Security verification is unavailable right now. Please try again later.',
+    completeChallenge: 'Please complete the security check and try again.',
+    tokenExpired: 'Your security check expired. Please try again.',
+    temporarilyUnavailable: 'Security verification is temporarily unavailable. Please try again.',
+    rateLimited: 'Too many failed security checks. Please wait a few minutes and try again.',
+  },
+  es: {
+    notConfigured: 'La verificación de Turnstile no está configurada',
+    missingToken: 'Falta el token de Turnstile',
+    failed: 'La verificación de seguridad ha fallado. Inténtalo de nuevo.',
+    error: 'Error en la verificación de seguridad. Inténtalo de nuevo.',
+    unavailable: 'La verificación de seguridad no está disponible en este momento. Inténtalo de nuevo más tarde.',
+    completeChallenge: 'Completa la verificación de seguridad e inténtalo de nuevo.',
+    tokenExpired: 'Tu verificación de seguridad ha caducado. Inténtalo de nuevo.',
+    temporarilyUnavailable: 'La verificación de seguridad no está disponible temporalmente. Inténtalo de nuevo.',
+    rateLimited: 'Demasiadas verificaciones de seguridad fallidas. Espera unos minutos e inténtalo de nuevo.',
+  },
+  fr: {
+    notConfigured: "La vérification Turnstile n'est pas configurée",
+    missingToken: 'Le jeton Turnstile est manquant',
+    failed: 'La vérification de sécurité a échoué. Veuillez réessayer.',
+    error: 'Erreur lors de la vérification de sécurité. Veuillez réessayer.',
+    unavailable: "La vérification de sécurité n'est pas disponible pour le moment. Veuillez réessayer plus tard.",
+    completeChallenge: 'Veuillez effectuer la vérification de sécurité et réessayer.',
+    tokenExpired: 'Votre vérification de sécurité a expiré. Veuillez réessayer.',
+    temporarilyUnavailable: 'La vérification de sécurité est temporairement indisponible. Veuillez réessayer.',
+    rateLimited: 'Trop de vérifications de sécurité ont échoué. Veuillez patienter quelques minutes et réessayer.',
+  },
+};
+
+let customMessages = {};
+
+/**
+ * Add a locale, or override some messages of an existing one. Missing messages fall back to English.
+ * @param {string} locale - Locale code, e.g. 'de' or 'fr-CA'
+ * @param {Partial<import('../src/types').TurnstileServerMessages>} messages - Messages to add or replace
+ */
+function addTurnstileMessages(locale, messages) {
+  const key = normalizeLocale(locale);
+  customMessages[key] = { ...customMessages[key], ...messages };
+}
+
+/**
+ * Get the messages for a locale, trying the full code ('fr-CA'), then its language ('fr'), then English
+ * @param {string | null} [locale]
+ * @returns {import('../src/types').TurnstileServerMessages}
+ */
+function getTurnstileMessages(locale) {
+  const english = { ...BUILT_IN_MESSAGES[DEFAULT_LOCALE], ...customMessages[DEFAULT_LOCALE] };
+  const match = locale ? findLocale(locale) : null;
+  return match ? { ...english, ...BUILT_IN_MESSAGES[match], ...customMessages[match] } : english;
+}
+
+/**
+ * Pick the best locale with messages from an Accept-Language header, by quality value
+ * @param {string | null | undefined} acceptLanguage - e.g. 'fr-CH, fr;q=0.9, en;q=0.8'
+ * @returns {string} Matching locale, or 'en'
+ */
+function negotiateTurnstileLocale(acceptLanguage) {
+  const ranges = String(acceptLanguage || '')
+    .split(',')
+    .map((part, index) => {
+      const [range, ...params] = part.trim().split(';');
+      const qualityParam = params.find((param) => param.trim().startsWith('q='));
+      const quality = qualityParam ? Number(qualityParam.trim().slice(2)) : 1;
+      return { range: range.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(({ range, quality }) => range && range !== '*' && quality > 0)
+    // Stable by position for equal quality
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { range } of ranges) {
+    const match = findLocale(range);
+    if (match) {
+      return match;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Remove every locale added with addTurnstileMessages(). Intended for tests.
+ */
+function resetTurnstileMessages() {
+  customMessages = {};
+}
+
+function findLocale(locale) {
+  const key = normalizeLocale(locale);
+  const language = key.split('-')[0];
+  return [key, language].find((candidate) => hasOwn(BUILT_IN_MESSAGES, candidate) || hasOwn(customMessages, candidate)) || null;
+}
+
+function hasOwn(object, key) {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function normalizeLocale(locale) {
+  return String(locale).trim().toLowerCase().replace(/_/g, '-');
+}
+
+module.exports = {
+  addTurnstileMessages,
+  getTurnstileMessages,
+  negotiateTurnstileLocale,
+  resetTurnstileMessages,
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+describe('messages', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    const { resetTurnstileMessages } = await import('./messages.js');
+    resetTurnstileMessages();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should ship English, Spanish and French with every message', async () => {
+    const { getTurnstileMessages } = await import('./messages.js');
+    const english = getTurnstileMessages('en');
+
+    for (const locale of ['es', 'fr']) {
+      const messages = getTurnstileMessages(locale);
+      expect(Object.keys(messages)).toEqual(Object.keys(english));
+      for (const key of Object.keys(english)) {
+        expect(messages[key]).not.toBe(english[key]);
+      }
+    }
+    expect(getTurnstileMessages()).toEqual(english);
+  });
+
+  it('should add locales and override messages, falling back to English', async () => {
+    const { addTurnstileMessages, getTurnstileMessages } = await import('./messages.js');
+
+    addTurnstileMessages('de', { failed: 'Sicherheitsprüfung fehlgeschlagen.' });
+    addTurnstileMessages('en', { missingToken: 'Please tick the box.' });
+
+    expect(getTurnstileMessages('de-CH')).toMatchObject({
+      failed: 'Sicherheitsprüfung fehlgeschlagen.',
+      missingToken: 'Please tick the box.',
+    });
+    expect(getTurnstileMessages('constructor').failed).toBe('Security verification failed. Please try again.');
+  });
+
+  describe('negotiateTurnstileLocale', () => {
+    it('should pick the best supported locale by quality', async () => {
+      const { negotiateTurnstileLocale } = await import('./messages.js');
+
+      expect(negotiateTurnstileLocale('fr-CH, fr;q=0.9, en;q=0.8')).toBe('fr');
+      expect(negotiateTurnstileLocale('de-DE, es;q=0.7, en;q=0.5')).toBe('es');
+      expect(negotiateTurnstileLocale('en;q=0.4, es;q=0.9')).toBe('es');
+      expect(negotiateTurnstileLocale('es;q=0, fr')).toBe('fr');
+    });
+
+    it('should fall back to English', async () => {
+      const { negotiateTurnstileLocale } = await import('./messages.js');
+
+      expect(negotiateTurnstileLocale('de-DE, *;q=0.5')).toBe('en');
+      expect(negotiateTurnstileLocale('')).toBe('en');
+      expect(negotiateTurnstileLocale(undefined)).toBe('en');
+    });
+
+    it('should match added locales', async () => {
+      const { addTurnstileMessages, negotiateTurnstileLocale } = await import('./messages.js');
+      addTurnstileMessages('pt-BR', { failed: 'A verificação falhou.' });
+
+      expect(negotiateTurnstileLocale('pt-BR, en;q=0.5')).toBe('pt-br');
+    });
+  });
+
+  it('should localize verifyTurnstile errors and details', async () => {
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const fetchImpl = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: false, 'error-codes': ['timeout-or-duplicate'] }),
+    });
+
+    const missing = await verifyTurnstile('', 'secret-key', null, { locale: 'fr' });
+    const rejected = await verifyTurnstile('token', 'secret-key', null, { locale: 'es', fetch: fetchImpl });
+
+    expect(missing.error).toBe('Le jeton Turnstile est manquant');
+    expect(missing.errorDetails[0].userMessage).toBe('Veuillez effectuer la vérification de sécurité et réessayer.');
+    expect(rejected.error).toBe('La verificación de seguridad ha fallado. Inténtalo de nuevo.');
+    expect(rejected.errorDetails[0].userMessage).toBe('Tu verificación de seguridad ha caducado. Inténtalo de nuevo.');
+  });
+
+  it('should answer withTurnstile requests in the Accept-Language locale', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    const handler = vi.fn();
+    const event = (headers) => ({ httpMethod: 'POST', headers, body: '' });
+
+    const negotiated = await withTurnstile(handler, { secretKey: 'secret-key' })(
+      event({ 'Accept-Language': 'es-ES,es;q=0.9,en;q=0.8' })
+    );
+    const explicit = await withTurnstile(handler, { secretKey: 'secret-key', locale: 'fr' })(
+      event({ 'accept-language': 'es' })
+    );
+
+    expect(JSON.parse(negotiated.body)).toMatchObject({
+      error: 'Falta el token de Turnstile',
+      details: { userMessage: 'Completa la verificación de seguridad e inténtalo de nuevo.' },
+    });
+    expect(JSON.parse(explicit.body).error).toBe('Le jeton Turnstile est manquant');
+  });
+
+  it('should localize configuration errors', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    vi.stubEnv('TURNSTILE_SECRET_KEY', '');
+
+    const response = await withTurnstile(vi.fn(), { mode: 'production' })({
+      httpMethod: 'POST',
+      headers: { 'accept-language': 'fr' },
+      body: '',
+    });
+
+    expect(JSON.parse(response.body).error).toBe("La vérification Turnstile n'est pas configurée");
+  });
+});
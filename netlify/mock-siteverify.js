@@ -0,0 +1,137 @@
+/**
+ * Cloudflare's dummy secret keys and the answer siteverify gives for each
+ */
+const SECRET_SCENARIOS = {
+  '1x0000000000000000000000000000000AA': 'pass',
+  '2x0000000000000000000000000000000AA': 'fail',
+  '3x0000000000000000000000000000000AA': 'duplicate',
+};
+
+/**
+ * Create an offline stand-in for Cloudflare's siteverify endpoint, for tests and local development.
+ *
+ * Pass `mock.fetch` as verifyTurnstile's `fetch` option, or serve `mock.handler` (a Fetch API
+ * handler) locally and point `siteverifyUrl` at it. By default the answer follows Cloudflare's
+ * dummy secret keys; `respondWith()` and `queue()` script other scenarios.
+ *
+ * @param {import('../src/types').MockSiteverifyOptions} options - Default scenario and success payload (optional)
+ * @returns {import('../src/types').MockSiteverify}
+ *
+ * @example
+ * const mock = createMockSiteverify();
+ * mock.queue('server-error', 'pass');
+ * await verifyTurnstile(token, secret, null, { fetch: mock.fetch, retries: 1 });
+ */
+function createMockSiteverify(options = {}) {
+  const { hostname = 'example.com', now = Date.now } = options;
+  let defaultScenario = options.scenario || 'from-secret';
+  let queued = [];
+  const requests = [];
+
+  const respond = async (params, signal) => {
+    const request = {
+      secret: params.get('secret'),
+      response: params.get('response'),
+      remoteip: params.get('remoteip'),
+      idempotencyKey: params.get('idempotency_key'),
+    };
+    requests.push(request);
+
+    const scenario = normalizeScenario(queued.length ? queued.shift() : defaultScenario);
+    const type = scenario.type === 'from-secret'
+      ? SECRET_SCENARIOS[request.secret] || 'fail'
+      : scenario.type;
+
+    switch (type) {
+      case 'pass':
+        return json({
+          success: true,
+          challenge_ts: new Date(now()).toISOString(),
+          hostname,
+          'error-codes': [],
+          action: '',
+          cdata: '',
+          ...scenario.data,
+        });
+      case 'fail':
+        return json({
+          success: false,
+          'error-codes': scenario.errorCodes || [getFailureCode(request)],
+        });
+      case 'duplicate':
+        return json({ success: false, 'error-codes': ['timeout-or-duplicate'] });
+      case 'server-error':
+        return new Response('Internal Server Error', { status: 500, statusText: 'Internal Server Error' });
+      case 'timeout':
+        return waitForAbort(signal);
+      default:
+        throw new Error(`Unknown siteverify scenario: ${type}`);
+    }
+  };
+
+  return {
+    requests,
+
+    fetch: async (url, init = {}) => respond(toParams(init.body), init.signal),
+
+    handler: async (request) => respond(new URLSearchParams(await request.text()), request.signal),
+
+    respondWith(scenario) {
+      defaultScenario = scenario;
+    },
+
+    queue(...scenarios) {
+      queued.push(...scenarios);
+    },
+
+    reset() {
+      defaultScenario = options.scenario || 'from-secret';
+      queued = [];
+      requests.length = 0;
+    },
+  };
+}
+
+function normalizeScenario(scenario) {
+  return typeof scenario === 'string' ? { type: scenario } : scenario;
+}
+
+/**
+ * Error code siteverify gives for a failed request, mirroring its input validation
+ */
+function getFailureCode(request) {
+  if (!request.secret) return 'missing-input-secret';
+  if (!request.response) return 'missing-input-response';
+  return 'invalid-input-response';
+}
+
+function toParams(body) {
+  if (body instanceof URLSearchParams) {
+    return body;
+  }
+  return new URLSearchParams(typeof body === 'string' ? body : '');
+}
+
+function json(data) {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Never answer, like an unreachable siteverify, until the caller aborts the request
+ */
+function waitForAbort(signal) {
+  return new Promise((_, reject) => {
+    if (!signal) return;
+    const abort = () => reject(signal.reason || new Error('The operation was aborted'));
+    if (signal.aborted) {
+      abort();
+    } else {
+      signal.addEventListener('abort', abort, { once: true });
+    }
+  });
+}
+
+module.exports = { createMockSiteverify };
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const PASS_SECRET = '1x0000000000000000000000000000000AA';
+const FAIL_SECRET = '2x0000000000000000000000000000000AA';
+const SPENT_SECRET = '3x0000000000000000000000000000000AA';
+const DUMMY_TOKEN = 'XXXX.DUMMY.TOKEN.XXXX';
+
+describe('mock-siteverify', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should answer like Cloudflare for each dummy secret key', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify({ now: () => Date.parse('2024-01-01T00:00:00Z') });
+
+    const passed = await verifyTurnstile(DUMMY_TOKEN, PASS_SECRET, null, { fetch: mock.fetch });
+    const failed = await verifyTurnstile(DUMMY_TOKEN, FAIL_SECRET, null, { fetch: mock.fetch });
+    const spent = await verifyTurnstile(DUMMY_TOKEN, SPENT_SECRET, null, { fetch: mock.fetch });
+
+    expect(passed).toMatchObject({
+      success: true,
+      hostname: 'example.com',
+      challenge_ts: '2024-01-01T00:00:00.000Z',
+    });
+    expect(failed).toMatchObject({ success: false, reason: 'siteverify-rejected', errorCodes: ['invalid-input-response'] });
+    expect(spent).toMatchObject({ success: false, reason: 'siteverify-rejected', errorCodes: ['timeout-or-duplicate'] });
+  });
+
+  it('should record the requests it receives', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify();
+
+    await verifyTurnstile('token-123', PASS_SECRET, '203.0.113.7', { fetch: mock.fetch, idempotencyKey: 'key-1' });
+
+    expect(mock.requests).toEqual([
+      { secret: PASS_SECRET, response: 'token-123', remoteip: '203.0.113.7', idempotencyKey: 'key-1' },
+    ]);
+  });
+
+  it('should pass with custom response data', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify({ scenario: { type: 'pass', data: { action: 'signup' } } });
+
+    const result = await verifyTurnstile('token-123', 'real-secret', null, {
+      fetch: mock.fetch,
+      expectedAction: 'contact',
+    });
+
+    expect(result).toMatchObject({ success: false, reason: 'action-mismatch', action: 'signup' });
+  });
+
+  it('should fail with the given error codes', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify();
+    mock.respondWith({ type: 'fail', errorCodes: ['invalid-input-secret'] });
+
+    const result = await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: mock.fetch });
+
+    expect(result.errorCodes).toEqual(['invalid-input-secret']);
+  });
+
+  it('should report a duplicate token', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify({ scenario: 'duplicate' });
+
+    const result = await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: mock.fetch });
+
+    expect(result.errorCodes).toEqual(['timeout-or-duplicate']);
+  });
+
+  it('should play queued scenarios in order before the default', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify();
+    mock.queue('server-error', 'server-error');
+
+    const unavailable = await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: mock.fetch });
+    const retried = await verifyTurnstile('token-123', PASS_SECRET, null, {
+      fetch: mock.fetch,
+      retries: 1,
+      retryDelay: 1,
+    });
+
+    expect(unavailable.reason).toBe('siteverify-unavailable');
+    expect(retried.success).toBe(true);
+    expect(mock.requests).toHaveLength(3);
+    // Retries carry the same idempotency key
+    expect(mock.requests[1].idempotencyKey).toBe(mock.requests[2].idempotencyKey);
+  });
+
+  it('should hang until verifyTurnstile times out', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify({ scenario: 'timeout' });
+
+    const result = await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: mock.fetch, timeout: 20 });
+
+    expect(result).toMatchObject({ success: false, reason: 'siteverify-timeout' });
+  });
+
+  it('should reset the scenario, queue and recorded requests', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify();
+    mock.respondWith('duplicate');
+    mock.queue('server-error');
+    await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: mock.fetch });
+
+    mock.reset();
+    const result = await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: mock.fetch });
+
+    expect(result.success).toBe(true);
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it('should serve Fetch API requests through its handler', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const mock = createMockSiteverify();
+
+    const response = await mock.handler(new Request('http://localhost:8788/siteverify', {
+      method: 'POST',
+      body: new URLSearchParams({ secret: FAIL_SECRET }),
+    }));
+
+    expect(await response.json()).toEqual({ success: false, 'error-codes': ['missing-input-response'] });
+  });
+});
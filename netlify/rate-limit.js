@@ -0,0 +1,121 @@
+/**
+ * Default number of failed verifications allowed per client within the window
+ */
+const DEFAULT_MAX_FAILURES = 10;
+
+/**
+ * Default sliding window (10 minutes)
+ */
+const DEFAULT_WINDOW = 600000;
+
+/**
+ * Default number of keys kept by the in-memory store
+ */
+const DEFAULT_MAX_KEYS = 10000;
+
+/**
+ * Create a limiter that counts failed verifications per client IP, and optionally per token
+ * prefix, within a sliding window. Pass it to verifyTurnstile (or withTurnstile / verifyRequest)
+ * as `rateLimiter`: once a client reaches `maxFailures`, requests are answered with a
+ * `rate-limited` result without calling siteverify until enough failures leave the window.
+ *
+ * @param {import('../src/types').RateLimiterOptions} options
+ * @returns {import('../src/types').TurnstileRateLimiter}
+ */
+function createRateLimiter(options = {}) {
+  const {
+    maxFailures = DEFAULT_MAX_FAILURES,
+    window = DEFAULT_WINDOW,
+    tokenPrefixLength = 0,
+    store = createMemoryRateLimitStore(),
+    now = Date.now,
+  } = options;
+
+  const getKeys = ({ ip, token }) => {
+    const keys = [];
+    if (ip) {
+      keys.push(`ip:${ip}`);
+    }
+    if (tokenPrefixLength > 0 && token) {
+      keys.push(`token:${String(token).slice(0, tokenPrefixLength)}`);
+    }
+    return keys;
+  };
+
+  return {
+    async check(client) {
+      const current = now();
+      let retryAfter = 0;
+
+      for (const key of getKeys(client)) {
+        const failures = (await store.get(key))
+          .filter((timestamp) => timestamp > current - window)
+          .sort((a, b) => a - b);
+
+        if (failures.length >= maxFailures) {
+          // Wait until enough failures have left the window to fall below the threshold
+          const freedAt = failures[failures.length - maxFailures] + window;
+          retryAfter = Math.max(retryAfter, Math.ceil((freedAt - current) / 1000), 1);
+        }
+      }
+
+      return { limited: retryAfter > 0, retryAfter };
+    },
+
+    async recordFailure(client) {
+      const current = now();
+      for (const key of getKeys(client)) {
+        await store.add(key, current, window);
+      }
+    },
+  };
+}
+
+/**
+ * Create an in-memory rate limit store, bounded to `maxKeys` keys (least recently failed dropped first).
+ * It keeps no clock of its own: failures expire relative to the timestamps the limiter records,
+ * so a limiter with a fake `now` is fully deterministic. Suitable for a single warm function
+ * instance; back the same interface with Netlify Blobs or Redis to share it across instances.
+ *
+ * @param {{ maxKeys?: number }} options
+ * @returns {import('../src/types').RateLimitStore}
+ */
+function createMemoryRateLimitStore(options = {}) {
+  const { maxKeys = DEFAULT_MAX_KEYS } = options;
+  /** @type {Map<string, { timestamps: number[], expiresAt: number }>} oldest failure first */
+  const entries = new Map();
+
+  const purgeExpired = (current) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= current) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      return entry ? entry.timestamps.slice() : [];
+    },
+
+    add(key, timestamp, ttl) {
+      purgeExpired(timestamp);
+
+      const entry = entries.get(key) || { timestamps: [], expiresAt: 0 };
+      entry.timestamps = entry.timestamps.filter((failedAt) => failedAt + ttl > timestamp);
+      entry.timestamps.push(timestamp);
+      entry.expiresAt = timestamp + ttl;
+
+      // Re-insert so the most recently failed key is last
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxKeys) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+  };
+}
+
+module.exports = { createRateLimiter, createMemoryRateLimitStore };
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+describe('rate-limit', () => {
+  let time;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  it('should limit a client once it reaches maxFailures within the window', async () => {
+    const { createRateLimiter } = await import('./rate-limit.js');
+    const limiter = createRateLimiter({ maxFailures: 3, window: 60000, now });
+    const client = { ip: '203.0.113.7' };
+
+    await limiter.recordFailure(client);
+    time = 10000;
+    await limiter.recordFailure(client);
+    expect(await limiter.check(client)).toEqual({ limited: false, retryAfter: 0 });
+
+    time = 20000;
+    await limiter.recordFailure(client);
+    expect(await limiter.check(client)).toEqual({ limited: true, retryAfter: 40 });
+    expect(await limiter.check({ ip: '198.51.100.1' })).toEqual({ limited: false, retryAfter: 0 });
+  });
+
+  it('should slide the window as old failures expire', async () => {
+    const { createRateLimiter } = await import('./rate-limit.js');
+    const limiter = createRateLimiter({ maxFailures: 2, window: 60000, now });
+    const client = { ip: '203.0.113.7' };
+
+    await limiter.recordFailure(client);
+    time = 30000;
+    await limiter.recordFailure(client);
+
+    time = 59999;
+    expect((await limiter.check(client)).limited).toBe(true);
+    time = 60000;
+    expect(await limiter.check(client)).toEqual({ limited: false, retryAfter: 0 });
+
+    await limiter.recordFailure(client);
+    expect(await limiter.check(client)).toEqual({ limited: true, retryAfter: 30 });
+  });
+
+  it('should count failures per token prefix when enabled', async () => {
+    const { createRateLimiter } = await import('./rate-limit.js');
+    const limiter = createRateLimiter({ maxFailures: 2, tokenPrefixLength: 6, now });
+
+    await limiter.recordFailure({ ip: '203.0.113.1', token: 'garbageA' });
+    await limiter.recordFailure({ ip: '203.0.113.2', token: 'garbageB' });
+
+    expect((await limiter.check({ ip: '203.0.113.3', token: 'garbageC' })).limited).toBe(true);
+    expect((await limiter.check({ ip: '203.0.113.3', token: 'other-token' })).limited).toBe(false);
+    expect((await limiter.check({ ip: '203.0.113.1' })).limited).toBe(false);
+  });
+
+  it('should not count clients without an IP or prefix', async () => {
+    const { createRateLimiter } = await import('./rate-limit.js');
+    const limiter = createRateLimiter({ maxFailures: 1, now });
+
+    await limiter.recordFailure({ ip: null, token: 'token' });
+
+    expect((await limiter.check({ ip: null, token: 'token' })).limited).toBe(false);
+  });
+
+  it('should evict the least recently failed key when maxKeys is exceeded', async () => {
+    const { createMemoryRateLimitStore } = await import('./rate-limit.js');
+    const store = createMemoryRateLimitStore({ maxKeys: 2 });
+
+    store.add('a', 0, 1000);
+    store.add('b', 1, 1000);
+    store.add('a', 2, 1000);
+    store.add('c', 3, 1000);
+
+    expect(store.get('a')).toEqual([0, 2]);
+    expect(store.get('b')).toEqual([]);
+    expect(store.get('c')).toEqual([3]);
+  });
+
+  it('should drop expired failures from the memory store', async () => {
+    const { createMemoryRateLimitStore } = await import('./rate-limit.js');
+    const store = createMemoryRateLimitStore();
+
+    store.add('a', 0, 1000);
+    store.add('b', 500, 1000);
+    store.add('b', 1000, 1000);
+
+    expect(store.get('a')).toEqual([]);
+    expect(store.get('b')).toEqual([500, 1000]);
+  });
+
+  describe('with verifyTurnstile', () => {
+    const rejected = () => ({
+      ok: true,
+      json: async () => ({ success: false, 'error-codes': ['invalid-input-response'] }),
+    });
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should short-circuit with rate-limited once the threshold is crossed', async () => {
+      const { createRateLimiter } = await import('./rate-limit.js');
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn().mockImplementation(async () => rejected());
+      const rateLimiter = createRateLimiter({ maxFailures: 2, window: 60000, now });
+      const options = { fetch: fetchImpl, rateLimiter };
+
+      await verifyTurnstile('garbage-1', 'secret-key', '203.0.113.7', options);
+      await verifyTurnstile('garbage-2', 'secret-key', '203.0.113.7', options);
+      time = 15000;
+      const limited = await verifyTurnstile('garbage-3', 'secret-key', '203.0.113.7', options);
+
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+      expect(limited).toMatchObject({
+        success: false,
+        reason: 'rate-limited',
+        retryAfter: 45,
+        error: 'Too many failed security checks. Please wait a few minutes and try again.',
+        errorDetails: [],
+      });
+    });
+
+    it('should only count failures the client caused', async () => {
+      const { createRateLimiter } = await import('./rate-limit.js');
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const rateLimiter = createRateLimiter({ maxFailures: 1, now });
+      const recordFailure = vi.spyOn(rateLimiter, 'recordFailure');
+      const badSecret = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: false, 'error-codes': ['invalid-input-secret'] }),
+      });
+
+      await verifyTurnstile('token', '', '203.0.113.7', { rateLimiter });
+      await verifyTurnstile('token', 'secret-key', '203.0.113.7', { rateLimiter, fetch: badSecret });
+      await verifyTurnstile('token', 'secret-key', '203.0.113.7', {
+        rateLimiter,
+        fetch: vi.fn().mockResolvedValue({ ok: false, status: 502, statusText: 'Bad Gateway' }),
+      });
+      expect(recordFailure).not.toHaveBeenCalled();
+
+      await verifyTurnstile('', 'secret-key', '203.0.113.7', { rateLimiter });
+      expect(recordFailure).toHaveBeenCalledWith({ ip: '203.0.113.7', token: '' });
+    });
+
+    it('should let requests through when the store fails', async () => {
+      const { createRateLimiter } = await import('./rate-limit.js');
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const store = {
+        get: vi.fn().mockRejectedValue(new Error('store down')),
+        add: vi.fn().mockRejectedValue(new Error('store down')),
+      };
+      const rateLimiter = createRateLimiter({ maxFailures: 1, store, now });
+
+      const result = await verifyTurnstile('garbage', 'secret-key', '203.0.113.7', {
+        rateLimiter,
+        fetch: vi.fn().mockResolvedValue(rejected()),
+      });
+
+      expect(result.reason).toBe('siteverify-rejected');
+      expect(console.error).toHaveBeenCalledWith('Failed to check Turnstile rate limit:', expect.any(Error));
+    });
+
+    it('should answer with 429 and Retry-After from withTurnstile', async () => {
+      const { createRateLimiter } = await import('./rate-limit.js');
+      const { withTurnstile } = await import('./with-turnstile.js');
+      const rateLimiter = createRateLimiter({ maxFailures: 1, window: 60000, now });
+      const handler = withTurnstile(vi.fn(), { secretKey: 'secret-key', rateLimiter });
+      const event = {
+        httpMethod: 'POST',
+        headers: { 'x-nf-client-connection-ip': '203.0.113.7' },
+        body: '',
+      };
+
+      expect((await handler(event)).statusCode).toBe(400);
+      const response = await handler(event);
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers).toMatchObject({ 'Retry-After': '60', 'X-Turnstile-Error': 'rate-limited' });
+      expect(JSON.parse(response.body)).toMatchObject({ reason: 'rate-limited', retryAfter: 60 });
+    });
+  });
+});
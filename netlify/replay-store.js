@@ -0,0 +1,62 @@
+const crypto = require('crypto');
+
+/**
+ * Default number of token hashes kept by the in-memory store
+ */
+const DEFAULT_MAX_ENTRIES = 10000;
+
+/**
+ * Hash a Turnstile token so the raw value is never kept in a replay store.
+ * @param {string} token
+ * @returns {string} Hex-encoded SHA-256 digest
+ */
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create an in-memory, LRU-bounded replay store.
+ * Suitable for a single warm function instance; back the same interface with
+ * Netlify Blobs or Redis (`SET key 1 NX PX ttl`) to share it across instances.
+ *
+ * @param {{ maxEntries?: number, now?: () => number }} options
+ * @returns {import('../src/types').ReplayStore}
+ */
+function createMemoryReplayStore(options = {}) {
+  const { maxEntries = DEFAULT_MAX_ENTRIES, now = Date.now } = options;
+  /** @type {Map<string, number>} key -> expiry timestamp, oldest first */
+  const entries = new Map();
+
+  const purgeExpired = () => {
+    const current = now();
+    for (const [key, expiresAt] of entries) {
+      if (expiresAt <= current) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    add(key, ttl) {
+      purgeExpired();
+
+      if (entries.has(key)) {
+        return false;
+      }
+
+      entries.set(key, now() + ttl);
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+
+      return true;
+    },
+
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+module.exports = { createMemoryReplayStore, hashToken };
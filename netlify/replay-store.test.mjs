@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+
+describe('replay-store', () => {
+  it('should hash tokens deterministically without exposing them', async () => {
+    const { hashToken } = await import('./replay-store.js');
+
+    expect(hashToken('token-123')).toBe(hashToken('token-123'));
+    expect(hashToken('token-123')).not.toBe(hashToken('token-456'));
+    expect(hashToken('token-123')).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should reject a key that was already added', async () => {
+    const { createMemoryReplayStore } = await import('./replay-store.js');
+    const store = createMemoryReplayStore();
+
+    expect(store.add('key', 1000)).toBe(true);
+    expect(store.add('key', 1000)).toBe(false);
+  });
+
+  it('should accept a key again after its ttl has passed', async () => {
+    const { createMemoryReplayStore } = await import('./replay-store.js');
+    let time = 0;
+    const store = createMemoryReplayStore({ now: () => time });
+
+    store.add('key', 1000);
+    time = 999;
+    expect(store.add('key', 1000)).toBe(false);
+    time = 1000;
+    expect(store.add('key', 1000)).toBe(true);
+  });
+
+  it('should evict the oldest key when maxEntries is exceeded', async () => {
+    const { createMemoryReplayStore } = await import('./replay-store.js');
+    const store = createMemoryReplayStore({ maxEntries: 2 });
+
+    store.add('a', 1000);
+    store.add('b', 1000);
+    store.add('c', 1000);
+
+    expect(store.add('a', 1000)).toBe(true);
+    expect(store.add('c', 1000)).toBe(false);
+  });
+
+  it('should forget a deleted key', async () => {
+    const { createMemoryReplayStore } = await import('./replay-store.js');
+    const store = createMemoryReplayStore();
+
+    store.add('key', 1000);
+    store.delete('key');
+
+    expect(store.add('key', 1000)).toBe(true);
+  });
+});
@@ -0,0 +1,7 @@
+import type { TurnstileEventListener, TurnstileLogger, TurnstileServerEvent } from '../src/types';
+
+export declare function setTurnstileLogger(logger: TurnstileLogger | null): void;
+export declare function getTurnstileLogger(): TurnstileLogger;
+export declare function onTurnstileEvent(listener: TurnstileEventListener): () => void;
+export declare function emitTurnstileEvent(event: TurnstileServerEvent): void;
+export declare function resetTurnstileTelemetry(): void;
@@ -0,0 +1,85 @@
+const SILENT_LOGGER = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+// Shared with src/turnstile-telemetry.ts, so the main entry, ./request, ./middleware and
+// these helpers all use one logger and one set of listeners
+const STORE_KEY = Symbol.for('@purplebird/turnstile-client/telemetry');
+
+function getStore() {
+  let store = globalThis[STORE_KEY];
+  if (!store) {
+    store = { listeners: new Set(), logger: null };
+    globalThis[STORE_KEY] = store;
+  }
+  return store;
+}
+
+/**
+ * Replace the logger used by the server helpers and the client utilities. Pass null to
+ * silence them (e.g. in tests). verifyTurnstile's `logger` option overrides it for a single call.
+ * @param {import('../src/types').TurnstileLogger | null} logger
+ */
+function setTurnstileLogger(logger) {
+  getStore().logger = logger || SILENT_LOGGER;
+}
+
+/**
+ * Get the current logger, console unless replaced with setTurnstileLogger()
+ * @returns {import('../src/types').TurnstileLogger}
+ */
+function getTurnstileLogger() {
+  // console is looked up on each call so test spies on it keep working
+  return getStore().logger || console;
+}
+
+/**
+ * Subscribe to telemetry events (verify-start, verify-result with latency, and the client events)
+ * @param {import('../src/types').TurnstileEventListener} listener
+ * @returns {() => void} Function that removes the listener
+ */
+function onTurnstileEvent(listener) {
+  const { listeners } = getStore();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Send an event to every listener. A throwing listener is logged and does not affect the others.
+ * @param {import('../src/types').TurnstileServerEvent} event
+ */
+function emitTurnstileEvent(event) {
+  const { listeners } = getStore();
+  if (listeners.size === 0) return;
+
+  const timestamped = { ...event, timestamp: Date.now() };
+  for (const listener of [...listeners]) {
+    try {
+      listener(timestamped);
+    } catch (error) {
+      getTurnstileLogger().warn('Turnstile telemetry listener error:', error);
+    }
+  }
+}
+
+/**
+ * Remove every listener and restore the console logger. Intended for tests.
+ */
+function resetTurnstileTelemetry() {
+  const store = getStore();
+  store.listeners.clear();
+  store.logger = null;
+}
+
+module.exports = {
+  setTurnstileLogger,
+  getTurnstileLogger,
+  onTurnstileEvent,
+  emitTurnstileEvent,
+  resetTurnstileTelemetry,
+};
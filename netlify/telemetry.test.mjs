@@ -0,0 +1,117 @@
+import { createRequire } from 'module';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// The helpers require() telemetry.js; load it the same way to share its listeners and logger
+const require = createRequire(import.meta.url);
+const { onTurnstileEvent, setTurnstileLogger, resetTurnstileTelemetry } = require('./telemetry.js');
+
+const PASS_SECRET = '1x0000000000000000000000000000000AA';
+const FAIL_SECRET = '2x0000000000000000000000000000000AA';
+
+function createLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('telemetry', () => {
+  afterEach(() => {
+    resetTurnstileTelemetry();
+    vi.restoreAllMocks();
+  });
+
+  it('should report the start and result of each verification', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const mock = createMockSiteverify({ scenario: { type: 'pass', data: { action: 'contact' } } });
+    const events = [];
+    onTurnstileEvent((event) => events.push(event));
+
+    await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: mock.fetch });
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'verify-start', hasToken: true, timestamp: expect.any(Number) }),
+      expect.objectContaining({
+        type: 'verify-result',
+        success: true,
+        errorCodes: [],
+        hostname: 'example.com',
+        action: 'contact',
+        latency: expect.any(Number),
+      }),
+    ]);
+  });
+
+  it('should report the failure reason and error codes', async () => {
+    const { createMockSiteverify } = await import('./mock-siteverify.js');
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    setTurnstileLogger(null);
+    const events = [];
+    onTurnstileEvent((event) => events.push(event));
+
+    await verifyTurnstile('token-123', FAIL_SECRET, null, { fetch: createMockSiteverify().fetch });
+    await verifyTurnstile(null, PASS_SECRET);
+
+    expect(events[1]).toMatchObject({
+      type: 'verify-result',
+      success: false,
+      reason: 'siteverify-rejected',
+      errorCodes: ['invalid-input-response'],
+    });
+    expect(events[2]).toMatchObject({ type: 'verify-start', hasToken: false });
+    expect(events[3]).toMatchObject({ type: 'verify-result', reason: 'missing-token', errorCodes: [] });
+  });
+
+  it('should measure siteverify latency', async () => {
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const events = [];
+    onTurnstileEvent((event) => events.push(event));
+    const slowFetch = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return { ok: true, json: async () => ({ success: true }) };
+    };
+
+    await verifyTurnstile('token-123', PASS_SECRET, null, { fetch: slowFetch });
+
+    expect(events[1].latency).toBeGreaterThanOrEqual(25);
+  });
+
+  it('should log through the configured logger, or stay silent', async () => {
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = createLogger();
+
+    setTurnstileLogger(logger);
+    await verifyTurnstile('token-123', null);
+    expect(logger.error).toHaveBeenCalledWith('Turnstile secret key is required');
+
+    setTurnstileLogger(null);
+    await verifyTurnstile('token-123', null);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('should prefer the logger passed to a single call', async () => {
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const global = createLogger();
+    const perCall = createLogger();
+    setTurnstileLogger(global);
+
+    await verifyTurnstile('token-123', null, null, { logger: perCall });
+
+    expect(perCall.error).toHaveBeenCalledTimes(1);
+    expect(global.error).not.toHaveBeenCalled();
+  });
+
+  it('should log a throwing listener without failing the verification', async () => {
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+    const logger = createLogger();
+    setTurnstileLogger(logger);
+    onTurnstileEvent(() => {
+      throw new Error('listener failed');
+    });
+
+    const result = await verifyTurnstile(null, PASS_SECRET);
+
+    expect(result.reason).toBe('missing-token');
+    expect(logger.warn).toHaveBeenCalledWith('Turnstile telemetry listener error:', expect.any(Error));
+  });
+});
@@ -0,0 +1,8 @@
+import type { ResolveSecretKeyOptions, VerificationFailureReason } from '../src/types';
+
+export declare class TurnstileConfigError extends Error {
+  reason: VerificationFailureReason;
+  constructor(message: string, reason?: VerificationFailureReason);
+}
+
+export declare function resolveSecretKey(secretKey?: string | null, options?: ResolveSecretKeyOptions): string;
@@ -0,0 +1,103 @@
+/**
+ * Cloudflare's dummy keys (see TURNSTILE_TEST_* in src/turnstile-client.ts)
+ */
+const TEST_SECRET_KEYS = [
+  '1x0000000000000000000000000000000AA',
+  '2x0000000000000000000000000000000AA',
+  '3x0000000000000000000000000000000AA',
+];
+const TEST_SITE_KEYS = [
+  '1x00000000000000000000AA',
+  '2x00000000000000000000AB',
+  '1x00000000000000000000BB',
+  '2x00000000000000000000BB',
+  '3x00000000000000000000FF',
+];
+
+/**
+ * Production secret keys start with `0x` followed by Cloudflare's base62 identifier
+ */
+const SECRET_KEY_PATTERN = /^0x[\w-]{30,}$/;
+
+/**
+ * Thrown when the secret key is missing, malformed, a test key in production, or a test key
+ * paired with a real site key. `reason` is the VerificationFailureReason to report.
+ */
+class TurnstileConfigError extends Error {
+  constructor(message, reason = 'misconfigured') {
+    super(message);
+    this.name = 'TurnstileConfigError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Resolve the secret key to verify with, according to the mode.
+ *
+ * A missing key always throws: preview deploys and hosts without NODE_ENV look like development,
+ * and silently verifying with the always-passing test secret there would accept the dummy token
+ * any bot can send. To test locally, pass a test secret (or set TURNSTILE_SECRET_KEY to one).
+ *
+ * - production: a malformed or test key also throws, unless `allowTestKeys` allows the test key
+ * - both modes: a test secret used with a real site key throws, because siteverify would reject
+ *   every real token
+ *
+ * @param {string} [secretKey] - Configured secret key (default: TURNSTILE_SECRET_KEY)
+ * @param {import('../src/types').ResolveSecretKeyOptions} options - Mode, paired site key and test key allowance (optional)
+ * @returns {string}
+ * @throws {TurnstileConfigError}
+ */
+function resolveSecretKey(secretKey, options = {}) {
+  const env = getEnv();
+  const { mode = detectMode(env), allowTestKeys = false } = options;
+  const key = normalizeKey(secretKey) || normalizeKey(env.TURNSTILE_SECRET_KEY);
+  const siteKey = normalizeKey(options.siteKey) || normalizeKey(env.PUBLIC_TURNSTILE_SITE_KEY);
+
+  if (!key) {
+    throw new TurnstileConfigError(
+      'Turnstile secret key is missing. Set TURNSTILE_SECRET_KEY, or pass a test secret explicitly for local testing.',
+      'missing-secret'
+    );
+  }
+
+  const isTestKey = TEST_SECRET_KEYS.includes(key);
+
+  if (isTestKey && siteKey && !TEST_SITE_KEYS.includes(siteKey)) {
+    throw new TurnstileConfigError(
+      `Turnstile test secret key is paired with the real site key ${siteKey}. Use the secret key of that site.`
+    );
+  }
+
+  if (mode === 'production') {
+    if (isTestKey && !allowTestKeys) {
+      throw new TurnstileConfigError(
+        'Turnstile secret key is a Cloudflare test key, which accepts the dummy token any bot can send.'
+      );
+    }
+    if (!isTestKey && !SECRET_KEY_PATTERN.test(key)) {
+      throw new TurnstileConfigError('Turnstile secret key does not look like a Cloudflare secret key (0x...).');
+    }
+  }
+
+  return key;
+}
+
+function detectMode(env) {
+  // Netlify sets CONTEXT=production for production deploys; NODE_ENV is often unset in functions
+  return env.NODE_ENV === 'production' || env.CONTEXT === 'production' ? 'production' : 'development';
+}
+
+function getEnv() {
+  // Edge runtimes have no process; pass secretKey and mode explicitly there
+  return typeof process !== 'undefined' && process.env ? process.env : { NODE_ENV: 'production' };
+}
+
+/**
+ * Trim a key, treating non-strings and "undefined"/"null" (an unset env var in a string) as missing
+ */
+function normalizeKey(key) {
+  const trimmed = typeof key === 'string' ? key.trim() : '';
+  return trimmed === 'undefined' || trimmed === 'null' ? '' : trimmed;
+}
+
+module.exports = { resolveSecretKey, TurnstileConfigError };
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const TEST_SECRET = '1x0000000000000000000000000000000AA';
+const PROD_SECRET = '0x4AAAAAAAB2Tn5Qf6KFSt94LrealSecretKey';
+const PROD_SITE_KEY = '0x4AAAAAAB2Tn5Qf6KFSt94L';
+
+describe('turnstile-keys', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should use the given key, then TURNSTILE_SECRET_KEY', async () => {
+    const { resolveSecretKey } = await import('./turnstile-keys.js');
+    vi.stubEnv('TURNSTILE_SECRET_KEY', ` ${PROD_SECRET} `);
+
+    expect(resolveSecretKey('0x4AAAAAAAOptionSecretKeyxxxxxxxxxxxxx')).toBe('0x4AAAAAAAOptionSecretKeyxxxxxxxxxxxxx');
+    expect(resolveSecretKey()).toBe(PROD_SECRET);
+  });
+
+  it('should throw a missing-secret error in every mode', async () => {
+    const { resolveSecretKey, TurnstileConfigError } = await import('./turnstile-keys.js');
+    vi.stubEnv('TURNSTILE_SECRET_KEY', 'undefined');
+
+    for (const mode of ['production', 'development']) {
+      const error = (() => {
+        try {
+          resolveSecretKey(undefined, { mode });
+        } catch (e) {
+          return e;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(TurnstileConfigError);
+      expect(error.reason).toBe('missing-secret');
+    }
+  });
+
+  it('should use a test secret only when it is given explicitly', async () => {
+    const { resolveSecretKey } = await import('./turnstile-keys.js');
+    vi.stubEnv('TURNSTILE_SECRET_KEY', '');
+    vi.stubEnv('CONTEXT', 'deploy-preview');
+
+    expect(() => resolveSecretKey()).toThrow(/missing/);
+    expect(resolveSecretKey(TEST_SECRET)).toBe(TEST_SECRET);
+
+    vi.stubEnv('TURNSTILE_SECRET_KEY', TEST_SECRET);
+    expect(resolveSecretKey()).toBe(TEST_SECRET);
+  });
+
+  it('should detect production from NODE_ENV or the Netlify deploy context', async () => {
+    const { resolveSecretKey } = await import('./turnstile-keys.js');
+
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => resolveSecretKey(TEST_SECRET)).toThrow(/test key/);
+
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('CONTEXT', 'production');
+    expect(() => resolveSecretKey(TEST_SECRET)).toThrow(/test key/);
+
+    vi.stubEnv('CONTEXT', 'deploy-preview');
+    expect(resolveSecretKey(TEST_SECRET)).toBe(TEST_SECRET);
+  });
+
+  it('should reject test and malformed secrets in production', async () => {
+    const { resolveSecretKey } = await import('./turnstile-keys.js');
+
+    expect(() => resolveSecretKey(TEST_SECRET, { mode: 'production' })).toThrow(/test key/);
+    expect(() => resolveSecretKey('secret-key', { mode: 'production' })).toThrow(/does not look like/);
+    expect(resolveSecretKey(TEST_SECRET, { mode: 'production', allowTestKeys: true })).toBe(TEST_SECRET);
+  });
+
+  it('should reject a test secret paired with a real site key in any mode', async () => {
+    const { resolveSecretKey } = await import('./turnstile-keys.js');
+
+    expect(() => resolveSecretKey(TEST_SECRET, { mode: 'development', siteKey: PROD_SITE_KEY })).toThrow(
+      /paired with the real site key/
+    );
+
+    vi.stubEnv('PUBLIC_TURNSTILE_SITE_KEY', PROD_SITE_KEY);
+    vi.stubEnv('TURNSTILE_SECRET_KEY', TEST_SECRET);
+    expect(() => resolveSecretKey(undefined, { mode: 'development' })).toThrow(/paired/);
+  });
+
+  it('should accept a test secret with a test site key', async () => {
+    const { resolveSecretKey } = await import('./turnstile-keys.js');
+
+    expect(resolveSecretKey(TEST_SECRET, { mode: 'development', siteKey: '2x00000000000000000000AB' })).toBe(TEST_SECRET);
+  });
+});
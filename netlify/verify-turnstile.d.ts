@@ -0,0 +1,8 @@
+import type { VerificationResult, VerifyTurnstileOptions } from '../src/types';
+
+export declare function verifyTurnstile(
+  token: string | null | undefined,
+  secretKey: string | null | undefined,
+  remoteIp?: string | null,
+  options?: VerifyTurnstileOptions
+): Promise<VerificationResult>;
@@ -1,69 +1,377 @@
+const crypto = require('crypto');
+const { hashToken } = require('./replay-store');
+const { emitTurnstileEvent, getTurnstileLogger } = require('./telemetry');
+const { getErrorDetails, SITEVERIFY_ERRORS } = require('./error-codes');
+const { getTurnstileMessages } = require('./messages');
+
+const SITEVERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+/**
+ * Turnstile tokens are valid for 5 minutes, so a used token need not be remembered longer
+ */
+const DEFAULT_REPLAY_TTL = 300000;
+
+/**
+ * Default siteverify request timeout (5 seconds)
+ */
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * Default base delay between retries, doubled on each attempt (250ms)
+ */
+const DEFAULT_RETRY_DELAY = 250;
+
+/**
+ * Failure reasons a rate limiter counts: ones the client caused, not configuration or Cloudflare problems
+ */
+const CLIENT_FAILURES = [
+  'missing-token',
+  'siteverify-rejected',
+  'hostname-mismatch',
+  'action-mismatch',
+  'token-too-old',
+  'token-already-used',
+];
+
 /**
  * Verify Cloudflare Turnstile token
  * @param {string} token - The Turnstile token from the form submission
  * @param {string} secretKey - The Turnstile secret key
  * @param {string} remoteIp - The IP address of the client (optional)
- * @returns {Promise<{success: boolean, error?: string}>}
+ * @param {import('../src/types').VerifyTurnstileOptions} options - Policy checks and transport settings (optional)
+ * @returns {Promise<import('../src/types').VerificationResult>}
  */
-async function verifyTurnstile(token, secretKey, remoteIp = null) {
+async function verifyTurnstile(token, secretKey, remoteIp = null, options = {}) {
+  const logger = options.logger || getTurnstileLogger();
+  const startedAt = Date.now();
+  emitTurnstileEvent({ type: 'verify-start', hasToken: Boolean(token) });
+
+  const messages = getTurnstileMessages(options.locale);
+  const { rateLimiter } = options;
+  const client = { ip: remoteIp, token };
+
+  const limit = rateLimiter ? await checkRateLimit(rateLimiter, client, logger) : null;
+  const result = limit && limit.limited
+    ? { success: false, reason: 'rate-limited', error: messages.rateLimited, retryAfter: limit.retryAfter }
+    : await verifyToken(token, secretKey, remoteIp, options, logger, messages);
+
+  if (!result.success) {
+    result.errorDetails = getErrorDetails(result, options.locale);
+    if (rateLimiter && isClientFailure(result)) {
+      await recordRateLimitFailure(rateLimiter, client, logger);
+    }
+  }
+
+  emitTurnstileEvent({
+    type: 'verify-result',
+    success: result.success,
+    reason: result.reason,
+    errorCodes: result.errorCodes || [],
+    hostname: result.hostname,
+    action: result.action,
+    latency: Date.now() - startedAt,
+  });
+  return result;
+}
+
+async function verifyToken(token, secretKey, remoteIp, options, logger, messages) {
   if (!secretKey) {
-    console.error('Turnstile secret key is required');
+    logger.error('Turnstile secret key is required');
     return {
       success: false,
-      error: 'Turnstile verification is not configured'
+      reason: 'missing-secret',
+      error: messages.notConfigured
     };
   }
 
   if (!token) {
     return {
       success: false,
-      error: 'Turnstile token is missing'
+      reason: 'missing-token',
+      error: messages.missingToken
     };
   }
 
+  const { replayStore, replayTtl = DEFAULT_REPLAY_TTL, retries = 0 } = options;
+  const tokenHash = replayStore ? hashToken(token) : null;
+
   try {
+    // Claim the token before calling siteverify so concurrent requests with the same token are rejected
+    if (replayStore && !(await replayStore.add(tokenHash, replayTtl))) {
+      logger.error('Turnstile token has already been used');
+      return {
+        success: false,
+        reason: 'token-already-used',
+        error: messages.failed
+      };
+    }
+
     const formData = new URLSearchParams();
     formData.append('secret', secretKey);
     formData.append('response', token);
     if (remoteIp) {
       formData.append('remoteip', remoteIp);
     }
+    // Lets Cloudflare recognise a retried request instead of reporting the token as a duplicate
+    const idempotencyKey = options.idempotencyKey || (retries > 0 ? crypto.randomUUID() : null);
+    if (idempotencyKey) {
+      formData.append('idempotency_key', idempotencyKey);
+    }
 
-    const response = await fetch('https://challenges.cloudflare.com/turnstile/v0/siteverify', {
-      method: 'POST',
-      body: formData,
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-    });
+    const { response, data } = await postSiteverify(formData, options, logger);
 
     if (!response.ok) {
-      console.error('Turnstile verification request failed with status:', response.status, response.statusText);
+      logger.error('Turnstile verification request failed with status:', response.status, response.statusText);
+      await releaseToken(replayStore, tokenHash, logger);
       return {
         success: false,
-        error: 'Security verification failed. Please try again.',
+        reason: 'siteverify-unavailable',
+        error: messages.failed,
       };
     }
 
-    const data = await response.json();
+    const result = toVerificationResult(data);
 
     if (!data.success) {
-      console.error('Turnstile verification failed:', data['error-codes']);
+      logger.error('Turnstile verification failed:', data['error-codes']);
+      return {
+        ...result,
+        success: false,
+        reason: 'siteverify-rejected',
+        error: messages.failed
+      };
+    }
+
+    const policyFailure = checkPolicy(result, options);
+    if (policyFailure) {
+      logger.error('Turnstile verification rejected by policy:', policyFailure);
       return {
+        ...result,
         success: false,
-        error: 'Security verification failed. Please try again.'
+        reason: policyFailure,
+        error: messages.failed
       };
     }
 
-    return { success: true };
+    return result;
   } catch (error) {
-    console.error('Error verifying Turnstile token:', error);
+    logger.error('Error verifying Turnstile token:', error);
+    await releaseToken(replayStore, tokenHash, logger);
+
+    if (error instanceof SiteverifyTimeoutError) {
+      return {
+        success: false,
+        reason: 'siteverify-timeout',
+        error: messages.error
+      };
+    }
+
     return {
       success: false,
-      error: 'Security verification error. Please try again.'
+      reason: 'verification-error',
+      error: messages.error
     };
   }
 }
 
-module.exports = { verifyTurnstile };
+/**
+ * Thrown when a siteverify request is aborted by the timeout
+ */
+class SiteverifyTimeoutError extends Error {
+  constructor(timeout) {
+    super(`Turnstile siteverify request timed out after ${timeout}ms`);
+    this.name = 'SiteverifyTimeoutError';
+  }
+}
+
+/**
+ * POST to siteverify with a per-attempt timeout, retrying network errors and 5xx responses.
+ * A definitive answer (any non-5xx response) is returned as-is and never retried.
+ * The timeout covers reading the JSON body too, so a response that stalls after its headers
+ * cannot hold the function until the platform kills it.
+ * @param {URLSearchParams} body
+ * @param {import('../src/types').VerifyTurnstileOptions} options
+ * @param {import('../src/types').TurnstileLogger} logger
+ * @returns {Promise<{ response: Response, data?: import('../src/types').SiteverifyResponse }>} The
+ *   response, and its parsed body when it is ok
+ */
+async function postSiteverify(body, options, logger) {
+  const {
+    fetch: fetchImpl = fetch,
+    siteverifyUrl = SITEVERIFY_URL,
+    timeout = DEFAULT_TIMEOUT,
+    retries = 0,
+    retryDelay = DEFAULT_RETRY_DELAY,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer;
+    // Also rejects reads that ignore the abort signal
+    const expired = new Promise((resolve, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+        reject(new SiteverifyTimeoutError(timeout));
+      }, timeout);
+    });
+    expired.catch(() => {});
+
+    let response;
+    let data;
+    let failure;
+    try {
+      response = await Promise.race([
+        fetchImpl(siteverifyUrl, {
+          method: 'POST',
+          body,
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          signal: controller.signal,
+        }),
+        expired,
+      ]);
+      if (response.ok) {
+        data = await Promise.race([response.json(), expired]);
+      }
+    } catch (error) {
+      failure = timedOut ? new SiteverifyTimeoutError(timeout) : error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const retryable = failure || response.status >= 500;
+    if (!retryable || attempt >= retries) {
+      if (failure) {
+        throw failure;
+      }
+      return { response, data };
+    }
 
+    logger.warn(
+      `Turnstile siteverify attempt ${attempt + 1} failed, retrying:`,
+      failure || `${response.status} ${response.statusText}`
+    );
+    await sleep(retryDelay * 2 ** attempt);
+  }
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Map a siteverify response body onto a VerificationResult, dropping absent fields.
+ * @param {import('../src/types').SiteverifyResponse} data
+ * @returns {import('../src/types').VerificationResult}
+ */
+function toVerificationResult(data) {
+  const result = {
+    success: Boolean(data.success),
+    errorCodes: Array.isArray(data['error-codes']) ? data['error-codes'] : [],
+  };
+
+  for (const key of ['hostname', 'action', 'cdata', 'challenge_ts', 'metadata']) {
+    if (data[key] !== undefined && data[key] !== null) {
+      result[key] = data[key];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply the caller's hostname, action and token age checks.
+ * @param {import('../src/types').VerificationResult} result
+ * @param {import('../src/types').VerifyTurnstileOptions} options
+ * @returns {import('../src/types').VerificationFailureReason | null}
+ */
+function checkPolicy(result, options) {
+  const { expectedHostname, expectedAction, maxTokenAge, now = Date.now } = options;
+
+  if (expectedHostname !== undefined) {
+    const allowed = toList(expectedHostname).map((hostname) => hostname.toLowerCase());
+    if (!result.hostname || !allowed.includes(result.hostname.toLowerCase())) {
+      return 'hostname-mismatch';
+    }
+  }
+
+  if (expectedAction !== undefined) {
+    if (!result.action || !toList(expectedAction).includes(result.action)) {
+      return 'action-mismatch';
+    }
+  }
+
+  if (maxTokenAge !== undefined) {
+    const issuedAt = result.challenge_ts ? Date.parse(result.challenge_ts) : NaN;
+    if (Number.isNaN(issuedAt) || now() - issuedAt > maxTokenAge) {
+      return 'token-too-old';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Forget a claimed token when siteverify never gave a verdict, so the user can retry with it.
+ * @param {import('../src/types').ReplayStore | undefined} replayStore
+ * @param {string | null} tokenHash
+ * @param {import('../src/types').TurnstileLogger} logger
+ */
+async function releaseToken(replayStore, tokenHash, logger) {
+  if (!replayStore) {
+    return;
+  }
+
+  try {
+    await replayStore.delete(tokenHash);
+  } catch (error) {
+    logger.error('Failed to release Turnstile token from replay store:', error);
+  }
+}
+
+/**
+ * Ask the limiter whether the client is over the limit. A failing store lets the request through.
+ * @param {import('../src/types').TurnstileRateLimiter} rateLimiter
+ * @param {import('../src/types').RateLimitClient} client
+ * @param {import('../src/types').TurnstileLogger} logger
+ */
+async function checkRateLimit(rateLimiter, client, logger) {
+  try {
+    const limit = await rateLimiter.check(client);
+    if (limit.limited) {
+      logger.warn(`Turnstile verification rate limited for ${limit.retryAfter}s:`, client.ip || 'unknown IP');
+    }
+    return limit;
+  } catch (error) {
+    logger.error('Failed to check Turnstile rate limit:', error);
+    return null;
+  }
+}
+
+async function recordRateLimitFailure(rateLimiter, client, logger) {
+  try {
+    await rateLimiter.recordFailure(client);
+  } catch (error) {
+    logger.error('Failed to record Turnstile rate limit failure:', error);
+  }
+}
+
+function isClientFailure(result) {
+  if (!CLIENT_FAILURES.includes(result.reason)) {
+    return false;
+  }
+  // siteverify also rejects tokens because of a bad secret, which is not the client's doing
+  return !(result.errorCodes || []).some((code) => {
+    const entry = Object.prototype.hasOwnProperty.call(SITEVERIFY_ERRORS, code) ? SITEVERIFY_ERRORS[code] : null;
+    return entry && entry.category === 'configuration';
+  });
+}
+
+function toList(value) {
+  return Array.isArray(value) ? value : [value];
+}
+
+module.exports = { verifyTurnstile };
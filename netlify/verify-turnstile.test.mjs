@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -195,5 +195,412 @@ describe('verify-turnstile', () => {
     expect(result.success).toBe(false);
     expect(result.error).toBe('Security verification failed. Please try again.');
   });
-});
 
+  it('should return siteverify fields on success', async () => {
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+
+    global.fetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: true,
+        'error-codes': [],
+        challenge_ts: '2024-01-01T00:00:00.000Z',
+        hostname: 'example.com',
+        action: 'contact',
+        cdata: 'session-1',
+        metadata: { ephemeral_id: 'x:abc' },
+      }),
+    });
+
+    const result = await verifyTurnstile('token', 'secret-key');
+
+    expect(result).toEqual({
+      success: true,
+      errorCodes: [],
+      challenge_ts: '2024-01-01T00:00:00.000Z',
+      hostname: 'example.com',
+      action: 'contact',
+      cdata: 'session-1',
+      metadata: { ephemeral_id: 'x:abc' },
+    });
+  });
+
+  it('should return error codes and reason when verification fails', async () => {
+    const { verifyTurnstile } = await import('./verify-turnstile.js');
+
+    global.fetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: false,
+        'error-codes': ['timeout-or-duplicate'],
+      }),
+    });
+
+    const result = await verifyTurnstile('token', 'secret-key');
+
+    expect(result.reason).toBe('siteverify-rejected');
+    expect(result.errorCodes).toEqual(['timeout-or-duplicate']);
+  });
+
+  describe('policy checks', () => {
+    const siteverifyResponse = {
+      success: true,
+      challenge_ts: '2024-01-01T00:00:00.000Z',
+      hostname: 'www.example.com',
+      action: 'contact',
+    };
+
+    beforeEach(() => {
+      global.fetch.mockResolvedValue({
+        ok: true,
+        json: async () => siteverifyResponse,
+      });
+    });
+
+    it('should accept a hostname from the allowlist', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        expectedHostname: ['example.com', 'WWW.example.com'],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a hostname outside the allowlist', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        expectedHostname: 'staging.example.com',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('hostname-mismatch');
+      expect(result.hostname).toBe('www.example.com');
+    });
+
+    it('should reject an unexpected action', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        expectedAction: 'newsletter',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('action-mismatch');
+    });
+
+    it('should accept one of several expected actions', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        expectedAction: ['newsletter', 'contact'],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a token older than maxTokenAge', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const now = () => Date.parse('2024-01-01T00:02:00.000Z');
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        maxTokenAge: 60000,
+        now,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('token-too-old');
+    });
+
+    it('should accept a token within maxTokenAge', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const now = () => Date.parse('2024-01-01T00:00:30.000Z');
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        maxTokenAge: 60000,
+        now,
+      });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('replay protection', () => {
+    it('should reject a token that has already been verified', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const { createMemoryReplayStore } = await import('./replay-store.js');
+      const replayStore = createMemoryReplayStore();
+
+      global.fetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true }),
+      });
+
+      const first = await verifyTurnstile('token', 'secret-key', null, { replayStore });
+      const second = await verifyTurnstile('token', 'secret-key', null, { replayStore });
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      expect(second.reason).toBe('token-already-used');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a concurrent request with the same token', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const { createMemoryReplayStore } = await import('./replay-store.js');
+      const replayStore = createMemoryReplayStore();
+
+      global.fetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true }),
+      });
+
+      const results = await Promise.all([
+        verifyTurnstile('token', 'secret-key', null, { replayStore }),
+        verifyTurnstile('token', 'secret-key', null, { replayStore }),
+      ]);
+
+      expect(results.map((result) => result.success).sort()).toEqual([false, true]);
+    });
+
+    it('should forget the token once replayTtl has passed', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const { createMemoryReplayStore } = await import('./replay-store.js');
+      let time = 0;
+      const replayStore = createMemoryReplayStore({ now: () => time });
+
+      global.fetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true }),
+      });
+
+      await verifyTurnstile('token', 'secret-key', null, { replayStore, replayTtl: 1000 });
+      time = 1000;
+      const result = await verifyTurnstile('token', 'secret-key', null, { replayStore, replayTtl: 1000 });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should release the token when siteverify cannot be reached', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const { createMemoryReplayStore } = await import('./replay-store.js');
+      const replayStore = createMemoryReplayStore();
+
+      global.fetch.mockRejectedValueOnce(new Error('Network error'));
+      global.fetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true }),
+      });
+
+      const first = await verifyTurnstile('token', 'secret-key', null, { replayStore });
+      const second = await verifyTurnstile('token', 'secret-key', null, { replayStore });
+
+      expect(first.reason).toBe('verification-error');
+      expect(second.success).toBe(true);
+    });
+
+    it('should fail closed when the store throws', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const replayStore = {
+        add: vi.fn().mockRejectedValue(new Error('Store unavailable')),
+        delete: vi.fn(),
+      };
+
+      const result = await verifyTurnstile('token', 'secret-key', null, { replayStore });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('verification-error');
+    });
+  });
+
+  describe('transport options', () => {
+    const okResponse = () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true }),
+    });
+    const serverError = () => ({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+    });
+
+    it('should use an injected fetch and endpoint instead of the global', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn().mockResolvedValue(okResponse());
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        siteverifyUrl: 'http://localhost:8787/siteverify',
+      });
+
+      expect(result.success).toBe(true);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(fetchImpl).toHaveBeenCalledWith(
+        'http://localhost:8787/siteverify',
+        expect.objectContaining({ method: 'POST', signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it('should time out a slow siteverify request', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn((url, init) => new Promise((resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        timeout: 10,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('siteverify-timeout');
+    });
+
+    it('should time out a siteverify response whose body never arrives', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn().mockResolvedValue({ ok: true, json: () => new Promise(() => {}) });
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        timeout: 10,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('siteverify-timeout');
+      expect(fetchImpl.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should retry 5xx responses with the same idempotency key', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn()
+        .mockResolvedValueOnce(serverError())
+        .mockResolvedValueOnce(serverError())
+        .mockResolvedValueOnce(okResponse());
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        retries: 2,
+        retryDelay: 0,
+      });
+
+      expect(result.success).toBe(true);
+      expect(fetchImpl).toHaveBeenCalledTimes(3);
+
+      const keys = fetchImpl.mock.calls.map(([, init]) => init.body.get('idempotency_key'));
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(new Set(keys).size).toBe(1);
+    });
+
+    it('should retry network errors', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(okResponse());
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        retries: 1,
+        retryDelay: 0,
+      });
+
+      expect(result.success).toBe(true);
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop after the configured number of retries', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn().mockResolvedValue(serverError());
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        retries: 2,
+        retryDelay: 0,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('siteverify-unavailable');
+      expect(fetchImpl).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry a definitive rejection', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: false, 'error-codes': ['invalid-input-response'] }),
+      });
+
+      const result = await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        retries: 2,
+        retryDelay: 0,
+      });
+
+      expect(result.reason).toBe('siteverify-rejected');
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send an explicit idempotency key', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      const fetchImpl = vi.fn().mockResolvedValue(okResponse());
+
+      await verifyTurnstile('token', 'secret-key', null, {
+        fetch: fetchImpl,
+        idempotencyKey: 'request-42',
+      });
+
+      expect(fetchImpl.mock.calls[0][1].body.get('idempotency_key')).toBe('request-42');
+    });
+  });
+
+  describe('error details', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should describe each siteverify error code', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.fetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: false, 'error-codes': ['invalid-input-secret', 'timeout-or-duplicate'] }),
+      });
+
+      const result = await verifyTurnstile('token', 'secret-key');
+
+      expect(result.errorDetails).toEqual([
+        expect.objectContaining({ code: 'invalid-input-secret', category: 'configuration', retryable: false }),
+        expect.objectContaining({ code: 'timeout-or-duplicate', category: 'token', retryable: true }),
+      ]);
+    });
+
+    it('should describe failures detected without an error code', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.fetch.mockRejectedValueOnce(new Error('Network error'));
+
+      const missingToken = await verifyTurnstile('', 'secret-key');
+      const missingSecret = await verifyTurnstile('token', '');
+      const networkError = await verifyTurnstile('token', 'secret-key');
+
+      expect(missingToken.errorDetails).toEqual([expect.objectContaining({ code: 'missing-input-response', category: 'token' })]);
+      expect(missingSecret.errorDetails).toEqual([expect.objectContaining({ code: 'missing-input-secret', category: 'configuration' })]);
+      expect(networkError.errorDetails).toEqual([expect.objectContaining({ code: 'internal-error', retryable: true })]);
+    });
+
+    it('should leave policy failures and successes without details', async () => {
+      const { verifyTurnstile } = await import('./verify-turnstile.js');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const response = { ok: true, json: async () => ({ success: true, action: 'signup' }) };
+      global.fetch.mockResolvedValueOnce(response).mockResolvedValueOnce(response);
+
+      const mismatch = await verifyTurnstile('token', 'secret-key', null, { expectedAction: 'contact' });
+      const passed = await verifyTurnstile('token', 'secret-key');
+
+      expect(mismatch.errorDetails).toEqual([]);
+      expect(passed.errorDetails).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+const { getTurnstileToken } = require('./get-turnstile-token');
+const { verifyTurnstile } = require('./verify-turnstile');
+const { resolveSecretKey, TurnstileConfigError } = require('./turnstile-keys');
+const { getTurnstileLogger } = require('./telemetry');
+const { getErrorDetails, getFailureResponse, TURNSTILE_ERROR_HEADER } = require('./error-codes');
+const { getTurnstileMessages, negotiateTurnstileLocale } = require('./messages');
+const { getClientIp } = require('./client-ip');
+
+/**
+ * Methods that are passed through without verification by default
+ */
+const DEFAULT_SKIP_METHODS = ['GET', 'HEAD'];
+
+const DEFAULT_CORS = {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  headers: ['Content-Type', 'X-Turnstile-Token'],
+  maxAge: 86400,
+};
+
+/**
+ * Wrap a Netlify function handler so every request is verified with Turnstile first.
+ *
+ * Extracts the token with getTurnstileToken(), verifies it against the client IP and only calls
+ * the handler if verification succeeded. With the `cors` option it also answers OPTIONS preflight
+ * requests and adds the CORS headers to every response, the handler's included. The result is
+ * available to the handler as `event.turnstile` and `context.turnstile`. Error messages are in
+ * the `locale` option, or the best match for the request's Accept-Language header.
+ *
+ * @param {Function} handler - Netlify function handler `(event, context) => response`
+ * @param {import('../src/types').WithTurnstileOptions} options - Secret key, failure response and verification options (optional)
+ * @returns {Function} Wrapped handler
+ */
+function withTurnstile(handler, options = {}) {
+  const {
+    secretKey,
+    mode,
+    siteKey,
+    allowTestKeys,
+    skipMethods = DEFAULT_SKIP_METHODS,
+    redirectTo,
+    onFailure,
+    cors = false,
+    clientIp,
+    ...verifyOptions
+  } = options;
+  if (cors && !cors.origin) {
+    throw new Error('withTurnstile: cors.origin is required when CORS is enabled');
+  }
+  const corsConfig = cors ? { ...DEFAULT_CORS, ...cors } : null;
+  const corsHeaders = corsConfig ? getCorsHeaders(corsConfig) : {};
+  const skipped = skipMethods.map((method) => method.toUpperCase());
+
+  return async (event, context = {}) => {
+    const method = (event.httpMethod || '').toUpperCase();
+
+    if (method === 'OPTIONS' && corsConfig) {
+      return {
+        statusCode: 204,
+        headers: {
+          ...corsHeaders,
+          'Access-Control-Allow-Methods': corsConfig.methods.join(', '),
+          'Access-Control-Allow-Headers': corsConfig.headers.join(', '),
+          'Access-Control-Max-Age': String(corsConfig.maxAge),
+        },
+        body: '',
+      };
+    }
+
+    if (method === 'OPTIONS' || skipped.includes(method)) {
+      return withCorsHeaders(await handler(event, context), corsHeaders);
+    }
+
+    const locale = verifyOptions.locale || negotiateTurnstileLocale(getHeader(event.headers || {}, 'accept-language'));
+    let verification;
+    try {
+      const secret = resolveSecretKey(secretKey, { mode, siteKey, allowTestKeys });
+      const token = await readToken(event, verifyOptions.logger || getTurnstileLogger());
+      verification = await verifyTurnstile(token, secret, getClientIp(event, clientIp), { ...verifyOptions, locale });
+    } catch (error) {
+      if (!(error instanceof TurnstileConfigError)) {
+        throw error;
+      }
+      (verifyOptions.logger || getTurnstileLogger()).error(error.message);
+      verification = {
+        success: false,
+        reason: error.reason,
+        error: getTurnstileMessages(locale).notConfigured,
+        errorDetails: getErrorDetails({ reason: error.reason }, locale)
+      };
+    }
+
+    if (!verification.success) {
+      const response = onFailure
+        ? await onFailure(verification, event)
+        : createFailureResponse(verification, redirectTo);
+      return withCorsHeaders(response, corsHeaders);
+    }
+
+    event.turnstile = verification;
+    if (context && typeof context === 'object') {
+      context.turnstile = verification;
+    }
+    return withCorsHeaders(await handler(event, context), corsHeaders);
+  };
+}
+
+/**
+ * Build the default failure response: a JSON body, or a 303 redirect for HTML form posts
+ * @param {import('../src/types').VerificationResult} verification
+ * @param {string} [redirectTo] - URL to redirect to, with `turnstile_error` appended
+ */
+function createFailureResponse(verification, redirectTo) {
+  const reason = verification.reason || 'verification-error';
+
+  if (redirectTo) {
+    const separator = redirectTo.includes('?') ? '&' : '?';
+    return {
+      statusCode: 303,
+      headers: {
+        Location: `${redirectTo}${separator}turnstile_error=${encodeURIComponent(reason)}`,
+        [TURNSTILE_ERROR_HEADER]: reason,
+      },
+      body: '',
+    };
+  }
+
+  const { status, headers, body } = getFailureResponse(verification);
+  return { statusCode: status, headers, body };
+}
+
+/**
+ * Extract the token, treating a body that cannot be parsed (e.g. multipart without a boundary)
+ * as carrying none, like verifyRequest does, so a malformed request gets a missing-token response
+ */
+async function readToken(event, logger) {
+  try {
+    return await getTurnstileToken(event);
+  } catch (error) {
+    logger.error('Failed to parse request body while extracting Turnstile token:', error);
+    return null;
+  }
+}
+
+function getCorsHeaders(cors) {
+  return {
+    'Access-Control-Allow-Origin': cors.origin,
+    // Lets a cross-origin turnstileFetch see why the request was rejected
+    'Access-Control-Expose-Headers': TURNSTILE_ERROR_HEADER,
+  };
+}
+
+function withCorsHeaders(response, corsHeaders) {
+  if (!response || typeof response !== 'object' || Object.keys(corsHeaders).length === 0) {
+    return response;
+  }
+  // Headers the handler set itself take precedence
+  return { ...response, headers: { ...corsHeaders, ...response.headers } };
+}
+
+function getHeader(headers, name) {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+module.exports = { withTurnstile, TURNSTILE_ERROR_HEADER };
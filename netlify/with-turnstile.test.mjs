@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+global.fetch = vi.fn();
+
+const postEvent = (headers = {}, body = null) => ({
+  httpMethod: 'POST',
+  headers: { 'x-nf-client-connection-ip': '203.0.113.7', ...headers },
+  body,
+  isBase64Encoded: false,
+});
+
+const siteverify = (data) =>
+  global.fetch.mockResolvedValueOnce({ ok: true, json: async () => data });
+
+describe('with-turnstile', () => {
+  let handler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('TURNSTILE_SECRET_KEY', 'secret-key');
+    handler = vi.fn(async () => ({ statusCode: 200, body: 'ok' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should verify the token and pass the result to the handler', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    siteverify({ success: true, hostname: 'example.com', action: 'contact' });
+    const event = postEvent({ 'x-turnstile-token': 'token-123' });
+    const context = {};
+
+    const response = await withTurnstile(handler)(event, context);
+
+    expect(response).toEqual({ statusCode: 200, body: 'ok' });
+    expect(handler).toHaveBeenCalledWith(event, context);
+    expect(event.turnstile).toMatchObject({ success: true, hostname: 'example.com' });
+    expect(context.turnstile).toBe(event.turnstile);
+
+    const body = global.fetch.mock.calls[0][1].body;
+    expect(body.get('secret')).toBe('secret-key');
+    expect(body.get('response')).toBe('token-123');
+    expect(body.get('remoteip')).toBe('203.0.113.7');
+  });
+
+  it('should read x-forwarded-for past the trusted proxies when the Netlify header is absent', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    siteverify({ success: true });
+    siteverify({ success: true });
+    const event = {
+      httpMethod: 'POST',
+      headers: { 'X-Turnstile-Token': 'token-123', 'X-Forwarded-For': '198.51.100.1, 10.0.0.1' },
+      body: null,
+    };
+
+    await withTurnstile(handler)(event);
+    await withTurnstile(handler, { clientIp: { trustedProxies: 2 } })(event);
+
+    expect(global.fetch.mock.calls[0][1].body.get('remoteip')).toBe('10.0.0.1');
+    expect(global.fetch.mock.calls[1][1].body.get('remoteip')).toBe('198.51.100.1');
+  });
+
+  it('should pass verification options through to verifyTurnstile', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    siteverify({ success: true, hostname: 'example.com', action: 'signup' });
+
+    const response = await withTurnstile(handler, { expectedAction: 'contact' })(
+      postEvent({ 'x-turnstile-token': 'token-123' })
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(403);
+    expect(JSON.parse(response.body).reason).toBe('action-mismatch');
+  });
+
+  it('should use the secret key option over the environment', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    siteverify({ success: true });
+
+    await withTurnstile(handler, { secretKey: 'option-secret' })(postEvent({ 'x-turnstile-token': 'token-123' }));
+
+    expect(global.fetch.mock.calls[0][1].body.get('secret')).toBe('option-secret');
+  });
+
+  it('should fail with missing-secret on a deploy preview without a secret', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    vi.stubEnv('TURNSTILE_SECRET_KEY', '');
+    vi.stubEnv('NODE_ENV', '');
+    vi.stubEnv('CONTEXT', 'deploy-preview');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await withTurnstile(handler)(postEvent({ 'x-turnstile-token': 'XXXX.DUMMY.TOKEN.XXXX' }));
+
+    expect(response.statusCode).toBe(500);
+    expect(response.headers['X-Turnstile-Error']).toBe('missing-secret');
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should verify with a test secret passed explicitly', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    vi.stubEnv('TURNSTILE_SECRET_KEY', '');
+    vi.stubEnv('NODE_ENV', 'development');
+    siteverify({ success: true });
+
+    await withTurnstile(handler, { secretKey: '1x0000000000000000000000000000000AA' })(
+      postEvent({ 'x-turnstile-token': 'token-123' })
+    );
+
+    expect(global.fetch.mock.calls[0][1].body.get('secret')).toBe('1x0000000000000000000000000000000AA');
+  });
+
+  it('should fail with a 500 when no secret is configured in production', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    vi.stubEnv('TURNSTILE_SECRET_KEY', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await withTurnstile(handler)(postEvent({ 'x-turnstile-token': 'token-123' }));
+
+    expect(response.statusCode).toBe(500);
+    expect(response.headers['X-Turnstile-Error']).toBe('missing-secret');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should fail with a 500 when a test secret is paired with a real site key', async () => {
+    const { withTurnstile } = await import('./with-turnstile.js');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const wrapped = withTurnstile(handler, {
+      secretKey: '1x0000000000000000000000000000000AA',
+      siteKey: '0x4AAAAAAB2Tn5Qf6KFSt94L',
+    });
+    const response = await wrapped(postEvent({ 'x-turnstile-token': 'token-123' }));
+
+    expect(response.statusCode).toBe(500);
+    expect(response.headers['X-Turnstile-Error']).toBe('misconfigured');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('paired with the real site key'));
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  describe('failure responses', () => {
+    it('should return a 400 JSON response when the token is missing', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+
+      const response = await withTurnstile(handler)(postEvent());
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response.statusCode).toBe(400);
+      expect(response.headers).toMatchObject({
+        'Content-Type': 'application/json',
+        'X-Turnstile-Error': 'missing-token',
+      });
+      expect(JSON.parse(response.body)).toEqual({
+        success: false,
+        error: 'Turnstile token is missing',
+        reason: 'missing-token',
+        details: {
+          code: 'missing-input-response',
+          category: 'token',
+          retryable: true,
+          userMessage: 'Please complete the security check and try again.',
+        },
+      });
+    });
+
+    it('should answer a malformed multipart body with a missing-token failure', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const wrapped = withTurnstile(handler, { secretKey: 'secret-key' });
+
+      for (const contentType of ['multipart/form-data', 'multipart/form-data; boundary=x']) {
+        const response = await wrapped(postEvent({ 'content-type': contentType }, 'junk'));
+
+        expect(response.statusCode, contentType).toBe(400);
+        expect(JSON.parse(response.body).reason).toBe('missing-token');
+      }
+      expect(handler).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        'Failed to parse request body while extracting Turnstile token:',
+        expect.any(Error)
+      );
+    });
+
+    it('should return a 403 with error codes when Cloudflare rejects the token', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      siteverify({ success: false, 'error-codes': ['invalid-input-response'] });
+
+      const response = await withTurnstile(handler)(postEvent({ 'x-turnstile-token': 'bad-token' }));
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body)).toMatchObject({
+        success: false,
+        reason: 'siteverify-rejected',
+        errorCodes: ['invalid-input-response'],
+      });
+    });
+
+    it('should return a 503 when siteverify is unavailable', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.fetch.mockResolvedValueOnce({ ok: false, status: 502, statusText: 'Bad Gateway' });
+
+      const response = await withTurnstile(handler)(postEvent({ 'x-turnstile-token': 'token-123' }));
+
+      expect(response.statusCode).toBe(503);
+      expect(response.headers['X-Turnstile-Error']).toBe('siteverify-unavailable');
+    });
+
+    it('should redirect with the failure reason when redirectTo is set', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+
+      const wrapped = withTurnstile(handler, { redirectTo: '/contact?sent=0' });
+      const response = await wrapped(postEvent());
+
+      expect(response.statusCode).toBe(303);
+      expect(response.headers.Location).toBe('/contact?sent=0&turnstile_error=missing-token');
+      expect(response.headers['X-Turnstile-Error']).toBe('missing-token');
+    });
+
+    it('should use a custom failure response', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      const onFailure = vi.fn(async (verification) => ({
+        statusCode: 422,
+        body: verification.reason,
+      }));
+      const event = postEvent();
+
+      const response = await withTurnstile(handler, { onFailure })(event);
+
+      expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ reason: 'missing-token' }), event);
+      expect(response.statusCode).toBe(422);
+      expect(response.body).toBe('missing-token');
+      expect(response.headers).toBeUndefined();
+    });
+  });
+
+  describe('methods', () => {
+    it('should answer OPTIONS preflight requests', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+
+      const wrapped = withTurnstile(handler, { cors: { origin: 'https://example.com' } });
+      const response = await wrapped({ httpMethod: 'OPTIONS', headers: {}, body: null });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response.statusCode).toBe(204);
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://example.com',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, X-Turnstile-Token',
+        'Access-Control-Max-Age': '86400',
+      });
+    });
+
+    it('should pass OPTIONS requests to the handler and add no CORS headers by default', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      const wrapped = withTurnstile(handler);
+
+      const response = await wrapped({ httpMethod: 'OPTIONS', headers: {}, body: null });
+      const failure = await wrapped(postEvent());
+
+      expect(handler).toHaveBeenCalled();
+      expect(response.statusCode).toBe(200);
+      expect(failure.headers['Access-Control-Allow-Origin']).toBeUndefined();
+    });
+
+    it('should add the CORS headers to successful and failed responses alike', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      siteverify({ success: true });
+      const wrapped = withTurnstile(handler, { secretKey: 'secret-key', cors: { origin: 'https://example.com' } });
+
+      const success = await wrapped(postEvent({ 'x-turnstile-token': 'token-123' }));
+      const failure = await wrapped(postEvent());
+
+      expect(success.statusCode).toBe(200);
+      expect(success.headers['Access-Control-Allow-Origin']).toBe('https://example.com');
+      expect(failure.statusCode).toBe(400);
+      expect(failure.headers['Access-Control-Allow-Origin']).toBe('https://example.com');
+    });
+
+    it('should require an origin when CORS is enabled', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+
+      expect(() => withTurnstile(handler, { cors: {} })).toThrow(/cors.origin is required/);
+    });
+
+    it('should skip verification for GET and HEAD by default', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      const wrapped = withTurnstile(handler);
+
+      await wrapped({ httpMethod: 'GET', headers: {}, body: null });
+      await wrapped({ httpMethod: 'HEAD', headers: {}, body: null });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should skip verification for configured methods only', async () => {
+      const { withTurnstile } = await import('./with-turnstile.js');
+      const wrapped = withTurnstile(handler, { skipMethods: ['delete'] });
+
+      await wrapped({ httpMethod: 'DELETE', headers: {}, body: null });
+      const response = await wrapped({ httpMethod: 'GET', headers: {}, body: null });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -1,15 +1,18 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { resolveSiteKey, TurnstileConfigError } from './turnstile-client';
+import { loadTurnstile } from './turnstile-loader';
+import { destroyTurnstileWidgets, initTurnstileWidgets } from './turnstile-widgets';
+
+vi.mock('./turnstile-loader', () => ({ loadTurnstile: vi.fn() }));
 
 /**
  * Test suite for TurnstileWidget.astro component logic
  * Since Astro components can't be directly unit tested, we test the logic
  */
 
-// Helper function that matches the component's siteKey normalization logic
+// The component resolves its siteKey prop with resolveSiteKey; development mode is the fallback path
 function normalizeSiteKey(providedSiteKey: any): string {
-  const normalizedKey = typeof providedSiteKey === 'string' ? providedSiteKey.trim() : '';
-  const hasSiteKey = normalizedKey !== '' && normalizedKey !== 'undefined';
-  return hasSiteKey ? normalizedKey : '1x00000000000000000000AA';
+  return resolveSiteKey(providedSiteKey, { mode: 'development' });
 }
 
 describe('TurnstileWidget logic', () => {
@@ -74,6 +77,50 @@ describe('TurnstileWidget logic', () => {
     });
   });
 
+  describe('siteKey in production mode', () => {
+    const prodKey = '0x4AAAAAAB2Tn5Qf6KFSt94L';
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should use a valid production key', () => {
+      expect(resolveSiteKey(`  ${prodKey} `, { mode: 'production' })).toBe(prodKey);
+    });
+
+    it('should fail the render when the key is missing', () => {
+      for (const key of [undefined, null, '', '  ', 'undefined']) {
+        expect(() => resolveSiteKey(key, { mode: 'production' })).toThrow(TurnstileConfigError);
+      }
+      expect(() => resolveSiteKey(undefined, { mode: 'production' })).toThrow(/PUBLIC_TURNSTILE_SITE_KEY/);
+    });
+
+    it('should fail the render for a test key unless allowed', () => {
+      expect(() => resolveSiteKey('1x00000000000000000000AA', { mode: 'production' })).toThrow(/test key/);
+      expect(() => resolveSiteKey('3x00000000000000000000FF', { mode: 'production' })).toThrow(TurnstileConfigError);
+      expect(resolveSiteKey('1x00000000000000000000AA', { mode: 'production', allowTestKeys: true })).toBe(
+        '1x00000000000000000000AA'
+      );
+    });
+
+    it('should fail the render for a malformed key', () => {
+      expect(() => resolveSiteKey('my-site-key', { mode: 'production' })).toThrow(/does not look like/);
+    });
+
+    it('should only warn about a malformed key in development', () => {
+      expect(resolveSiteKey('my-site-key', { mode: 'development' })).toBe('my-site-key');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('my-site-key'));
+    });
+
+    it('should detect development mode under the test runner', () => {
+      expect(resolveSiteKey(undefined)).toBe('1x00000000000000000000AA');
+    });
+  });
+
   describe('widget ID generation', () => {
     it('should generate unique widget IDs', () => {
       // Test that the ID generation logic works (component uses Math.random)
@@ -94,5 +141,194 @@ describe('TurnstileWidget logic', () => {
       expect(widgetId).toBe('custom-widget-id');
     });
   });
-});
 
+  describe('boolean data attributes', () => {
+    // Matches the component's toAttribute helper
+    const toAttribute = (value?: boolean) => (value === undefined ? undefined : String(value));
+
+    it('should omit undefined booleans', () => {
+      expect(toAttribute(undefined)).toBeUndefined();
+    });
+
+    it('should keep false as an explicit value', () => {
+      expect(toAttribute(false)).toBe('false');
+      expect(toAttribute(true)).toBe('true');
+    });
+  });
+
+  describe('status region', () => {
+    let mockTurnstile: any;
+    let params: any;
+
+    // Matches the markup the component renders with showStatus and a fallback slot
+    function renderWidget({ language = 'en', fallback = true } = {}): HTMLElement {
+      document.body.innerHTML = `
+        <div id="widget" class="cf-turnstile" data-sitekey="site-key" data-language="${language}"
+          data-turnstile-status="widget-status" ${fallback ? 'data-turnstile-fallback="widget-fallback"' : ''}></div>
+        <div id="widget-status" class="turnstile-status" data-state="verifying" role="status" aria-live="polite">
+          <span class="turnstile-status__message"></span>
+          <button type="button" class="turnstile-status__retry" hidden></button>
+        </div>
+        ${fallback ? '<div id="widget-fallback" class="turnstile-fallback" hidden><a href="/contact">Contact us</a></div>' : ''}
+      `;
+      return document.getElementById('widget')!;
+    }
+
+    const region = () => document.getElementById('widget-status')!;
+    const message = () => region().querySelector('.turnstile-status__message')!.textContent;
+    const retryButton = () => region().querySelector<HTMLButtonElement>('.turnstile-status__retry')!;
+    const fallback = () => document.getElementById('widget-fallback')!;
+
+    beforeEach(() => {
+      mockTurnstile = {
+        render: vi.fn((_container, renderParams) => {
+          params = renderParams;
+          return 'widget-1';
+        }),
+        reset: vi.fn(),
+        remove: vi.fn(),
+        getResponse: vi.fn(() => ''),
+        isExpired: vi.fn(() => false),
+      };
+      (window as any).turnstile = mockTurnstile;
+      vi.mocked(loadTurnstile).mockResolvedValue(mockTurnstile);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      destroyTurnstileWidgets();
+      document.body.innerHTML = '';
+      delete (window as any).turnstile;
+      vi.restoreAllMocks();
+    });
+
+    it('should follow the widget callbacks', async () => {
+      renderWidget();
+      await initTurnstileWidgets();
+
+      expect(region().getAttribute('data-state')).toBe('verifying');
+      expect(message()).toBe('Verifying you are human…');
+      expect(retryButton().hidden).toBe(true);
+
+      params.callback('token');
+      expect(region().getAttribute('data-state')).toBe('verified');
+      expect(message()).toBe('Verification complete.');
+
+      params['expired-callback']();
+      expect(region().getAttribute('data-state')).toBe('expired');
+      expect(message()).toBe('Verification expired. Please verify again.');
+      expect(fallback().hidden).toBe(true);
+    });
+
+    it('should show failures with a retry button that resets the widget', async () => {
+      renderWidget();
+      await initTurnstileWidgets();
+
+      params['error-callback']('600010');
+      expect(region().getAttribute('data-state')).toBe('failed');
+      expect(message()).toBe('Security verification failed. Please try again.');
+      expect(retryButton().hidden).toBe(false);
+      expect(retryButton().textContent).toBe('Try again');
+
+      retryButton().click();
+      expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-1');
+      expect(region().getAttribute('data-state')).toBe('verifying');
+      expect(retryButton().hidden).toBe(true);
+
+      params['timeout-callback']();
+      expect(region().getAttribute('data-state')).toBe('failed');
+      expect(message()).toBe('The security check timed out. Please try again.');
+      expect(retryButton().hidden).toBe(false);
+    });
+
+    it('should not offer a retry for configuration errors', async () => {
+      renderWidget();
+      await initTurnstileWidgets();
+
+      params['error-callback']('110200');
+      expect(region().getAttribute('data-state')).toBe('failed');
+      expect(retryButton().hidden).toBe(true);
+    });
+
+    it('should show the fallback for unsupported browsers', async () => {
+      renderWidget();
+      await initTurnstileWidgets();
+
+      params['unsupported-callback']();
+      expect(region().getAttribute('data-state')).toBe('unsupported');
+      expect(fallback().hidden).toBe(false);
+
+      renderWidget();
+      destroyTurnstileWidgets();
+      await initTurnstileWidgets();
+      params['error-callback']('110500');
+      expect(region().getAttribute('data-state')).toBe('unsupported');
+    });
+
+    it('should show the script-blocked state and retry loading', async () => {
+      renderWidget();
+      vi.mocked(loadTurnstile).mockRejectedValueOnce(new Error('Turnstile script failed to load'));
+
+      await expect(initTurnstileWidgets()).rejects.toThrow('Turnstile script failed to load');
+      expect(region().getAttribute('data-state')).toBe('script-blocked');
+      expect(message()).toBe(
+        'Security verification could not load. Please check your connection or allow challenges.cloudflare.com.'
+      );
+      expect(fallback().hidden).toBe(false);
+      expect(mockTurnstile.render).not.toHaveBeenCalled();
+
+      retryButton().click();
+      await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalledTimes(1));
+      expect(region().getAttribute('data-state')).toBe('verifying');
+      expect(fallback().hidden).toBe(true);
+    });
+
+    it('should use the widget language', async () => {
+      renderWidget({ language: 'fr', fallback: false });
+      await initTurnstileWidgets();
+
+      params['error-callback']('600010');
+      expect(message()).toBe('La vérification de sécurité a échoué. Veuillez réessayer.');
+      expect(retryButton().textContent).toBe('Réessayer');
+    });
+
+    it('should leave containers without a status region alone', async () => {
+      document.body.innerHTML = '<div class="cf-turnstile" data-sitekey="site-key"></div>';
+      await initTurnstileWidgets();
+
+      expect(params['unsupported-callback']).toBeUndefined();
+      expect(document.body.querySelector('[data-state]')).toBeNull();
+    });
+  });
+
+  describe('CSP nonce', () => {
+    beforeEach(() => {
+      (window as any).turnstile = { render: vi.fn(() => 'widget-1'), remove: vi.fn() };
+      vi.mocked(loadTurnstile).mockResolvedValue((window as any).turnstile);
+    });
+
+    afterEach(() => {
+      destroyTurnstileWidgets();
+      document.body.innerHTML = '';
+      delete (window as any).turnstile;
+      vi.mocked(loadTurnstile).mockClear();
+    });
+
+    it('should pass the container nonce to the script loader', async () => {
+      document.body.innerHTML = `
+        <div class="cf-turnstile" data-sitekey="site-key"></div>
+        <div class="cf-turnstile" data-sitekey="site-key" nonce="r4nd0m"></div>
+      `;
+      await initTurnstileWidgets();
+
+      expect(loadTurnstile).toHaveBeenCalledWith({ nonce: 'r4nd0m' });
+    });
+
+    it('should load without a nonce when no container has one', async () => {
+      document.body.innerHTML = '<div class="cf-turnstile" data-sitekey="site-key"></div>';
+      await initTurnstileWidgets();
+
+      expect(loadTurnstile).toHaveBeenCalledWith({ nonce: undefined });
+    });
+  });
+});
@@ -2,11 +2,63 @@
 export type {
   TurnstileTheme,
   TurnstileSize,
+  TurnstileAppearance,
+  TurnstileExecution,
+  TurnstileRetry,
+  TurnstileRefreshMode,
+  TurnstileMode,
+  ResolveSiteKeyOptions,
+  ResolveSecretKeyOptions,
   TurnstileWidgetProps,
+  TurnstileStatusRegionState,
   AutoRefreshOptions,
+  RefreshStrategy,
+  LoadTurnstileOptions,
+  TurnstileCspDirectives,
+  TurnstileCspOptions,
+  AttachToFormOptions,
+  RegisteredTurnstileWidget,
+  RegisterTurnstileWidgetOptions,
+  SubmitOutcome,
+  TurnstileFetchOptions,
   VerificationResult,
+  VerificationFailureReason,
+  TurnstileErrorCategory,
+  TurnstileErrorInfo,
+  TurnstilePublicErrorDetails,
+  SiteverifyErrorCode,
+  TurnstileClientMessages,
+  TurnstileServerMessages,
+  VerifyTurnstileOptions,
+  SiteverifyResponse,
+  ReplayStore,
+  RateLimitStore,
+  RateLimiterOptions,
+  RateLimitClient,
+  TurnstileRateLimiter,
+  MockSiteverify,
+  MockSiteverifyOptions,
+  MockSiteverifyScenario,
+  MockSiteverifyRequest,
+  WithTurnstileOptions,
+  TurnstileCorsOptions,
+  NetlifyFunctionEvent,
+  NetlifyFunctionResponse,
+  ParseTurnstileRequestOptions,
+  ParsedTurnstileRequest,
+  TurnstileUploadedFile,
+  VerifyRequestOptions,
+  ClientIpOptions,
+  TurnstileMiddlewareOptions,
+  TurnstileMiddlewareContext,
+  TurnstileLogger,
+  TurnstileClientEvent,
+  TurnstileServerEvent,
+  TurnstileTelemetryEvent,
+  TurnstileEventListener,
   TurnstileAPI,
   TurnstileRenderParams,
+  TurnstileControllerEventMap,
 } from './types';
 
 // Export client-side utilities
@@ -14,11 +66,67 @@ export {
   setupAutoRefresh,
   getTurnstileToken,
   isTestSiteKey,
+  isTestSecretKey,
   getSiteKey,
+  resolveSiteKey,
+  detectTurnstileMode,
+  TurnstileConfigError,
   TURNSTILE_TEST_SITE_KEY,
+  TURNSTILE_TEST_SITE_KEY_BLOCKED,
+  TURNSTILE_TEST_SITE_KEY_INVISIBLE,
+  TURNSTILE_TEST_SITE_KEY_INVISIBLE_BLOCKED,
+  TURNSTILE_TEST_SITE_KEY_INTERACTIVE,
   TURNSTILE_TEST_SECRET_KEY,
+  TURNSTILE_TEST_SECRET_KEY_FAIL,
+  TURNSTILE_TEST_SECRET_KEY_SPENT,
+  TURNSTILE_DUMMY_TOKEN,
 } from './turnstile-client';
 
+export { TurnstileController } from './turnstile-controller';
+
+export { getTurnstileError, TurnstileError } from './turnstile-errors';
+
+export {
+  addTurnstileMessages,
+  getTurnstileMessages,
+  detectTurnstileLocale,
+  DEFAULT_TURNSTILE_LOCALE,
+} from './turnstile-messages';
+
+export { loadTurnstile, TURNSTILE_SCRIPT_URL } from './turnstile-loader';
+
+export { getTurnstileCspDirectives, TURNSTILE_ORIGIN } from './turnstile-csp';
+
+export {
+  setTurnstileLogger,
+  getTurnstileLogger,
+  onTurnstileEvent,
+} from './turnstile-telemetry';
+
+export {
+  initTurnstileWidgets,
+  destroyTurnstileWidgets,
+  setupTurnstileWidgets,
+  getMountedController,
+} from './turnstile-widgets';
+
+export { TurnstileWidgetRegistry, turnstileRegistry } from './turnstile-registry';
+
+export { attachTurnstileToForm } from './turnstile-form';
+
+export {
+  TurnstileWidgetElement,
+  defineTurnstileElement,
+  TURNSTILE_ELEMENT_TAG,
+} from './turnstile-element';
+
+export {
+  turnstileFetch,
+  isTurnstileFailureResponse,
+  TURNSTILE_TOKEN_HEADER,
+  TURNSTILE_ERROR_HEADER,
+} from './turnstile-fetch';
+
 // Note: TurnstileWidget.astro is exported as a component file
 // and should be imported directly: import TurnstileWidget from '@purplebird/turnstile-client/TurnstileWidget.astro'
 
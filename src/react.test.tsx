@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { act, StrictMode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { Turnstile, useTurnstile, type UseTurnstileResult } from './react';
+import { TURNSTILE_TEST_SITE_KEY } from './turnstile-client';
+
+describe('react', () => {
+  let mockTurnstile: any;
+  let originalTurnstile: any;
+  let renderParams: any;
+  let host: HTMLElement;
+  let root: Root;
+  let nextId: number;
+
+  const mount = async (element: JSX.Element) => {
+    await act(async () => {
+      root.render(element);
+    });
+  };
+
+  beforeAll(() => {
+    (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    nextId = 0;
+    mockTurnstile = {
+      render: vi.fn((_container, params) => {
+        renderParams = params;
+        return `widget-${++nextId}`;
+      }),
+      reset: vi.fn(),
+      remove: vi.fn(),
+      execute: vi.fn(),
+      getResponse: vi.fn(() => ''),
+      isExpired: vi.fn(() => false),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+
+    host = document.createElement('div');
+    document.body.appendChild(host);
+    root = createRoot(host);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    host.remove();
+    (window as any).turnstile = originalTurnstile;
+  });
+
+  describe('useTurnstile', () => {
+    let result: UseTurnstileResult;
+
+    function Probe(props: Parameters<typeof useTurnstile>[0]) {
+      result = useTurnstile(props);
+      return <div ref={result.ref} data-testid="widget" />;
+    }
+
+    it('should render the widget and report token and status', async () => {
+      const onToken = vi.fn();
+      await mount(<Probe siteKey="site-key" action="contact" onToken={onToken} />);
+
+      expect(result.status).toBe('ready');
+      expect(renderParams).toMatchObject({ sitekey: 'site-key', action: 'contact' });
+
+      await act(async () => renderParams.callback('token-abc'));
+
+      expect(result.token).toBe('token-abc');
+      expect(result.status).toBe('solved');
+      expect(onToken).toHaveBeenCalledWith('token-abc');
+    });
+
+    it('should fall back to the test site key', async () => {
+      await mount(<Probe />);
+
+      expect(renderParams.sitekey).toBe(TURNSTILE_TEST_SITE_KEY);
+    });
+
+    it('should report a configuration error for a missing key in production', async () => {
+      vi.stubEnv('PROD', true);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        await mount(<Probe />);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+
+      expect(result.status).toBe('error');
+      expect(result.error).toMatchObject({ code: 'invalid-site-key', category: 'configuration', retryable: false });
+      expect(mockTurnstile.render).not.toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+
+    it('should clear the token on expiry and error', async () => {
+      const onExpire = vi.fn();
+      const onError = vi.fn();
+      await mount(<Probe siteKey="site-key" onExpire={onExpire} onError={onError} />);
+
+      await act(async () => renderParams.callback('token-abc'));
+      await act(async () => renderParams['expired-callback']());
+      expect(result.token).toBeNull();
+      expect(result.status).toBe('expired');
+      expect(onExpire).toHaveBeenCalled();
+
+      await act(async () => renderParams['error-callback']('300010'));
+      expect(result.status).toBe('error');
+      expect(result.error).toMatchObject({ code: '300010', category: 'challenge', retryable: true });
+      expect(onError).toHaveBeenCalledWith('300010', result.error);
+    });
+
+    it('should reset and execute the widget', async () => {
+      await mount(<Probe siteKey="site-key" execution="execute" />);
+      await act(async () => renderParams.callback('token-abc'));
+
+      await act(async () => result.reset());
+      expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-1');
+      expect(result.token).toBeNull();
+
+      act(() => result.execute());
+      expect(mockTurnstile.execute).toHaveBeenCalled();
+    });
+
+    it('should not re-render the widget when only callbacks change', async () => {
+      await mount(<Probe siteKey="site-key" onToken={() => {}} />);
+      await mount(<Probe siteKey="site-key" onToken={() => {}} />);
+
+      expect(mockTurnstile.render).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-render the widget when a render parameter changes', async () => {
+      await mount(<Probe siteKey="site-key" theme="light" />);
+      await mount(<Probe siteKey="site-key" theme="dark" />);
+
+      expect(mockTurnstile.render).toHaveBeenCalledTimes(2);
+      expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-1');
+    });
+
+    it('should remove the widget on unmount', async () => {
+      await mount(<Probe siteKey="site-key" />);
+
+      act(() => root.render(<></>));
+
+      expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-1');
+    });
+  });
+
+  describe('Turnstile', () => {
+    it('should render a single widget under StrictMode double-mount', async () => {
+      await mount(
+        <StrictMode>
+          <Turnstile siteKey="site-key" className="turnstile" />
+        </StrictMode>
+      );
+
+      expect(host.querySelector('.turnstile')).not.toBeNull();
+      expect(mockTurnstile.render).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove the widget on unmount', async () => {
+      await mount(<Turnstile siteKey="site-key" />);
+
+      act(() => root.render(<></>));
+
+      expect(mockTurnstile.render).toHaveBeenCalledTimes(1);
+      expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-1');
+    });
+  });
+});
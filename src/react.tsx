@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CSSProperties, RefCallback } from 'react';
+import type { TurnstileErrorInfo, TurnstileRenderParams, TurnstileStatus, UseTurnstileOptions } from './types';
+import { getSiteKey, setupAutoRefresh, TurnstileConfigError } from './turnstile-client';
+import { TurnstileController } from './turnstile-controller';
+import { loadTurnstile } from './turnstile-loader';
+import { getTurnstileLogger } from './turnstile-telemetry';
+import { getTurnstileError } from './turnstile-errors';
+
+export type { TurnstileStatus, UseTurnstileOptions } from './types';
+
+/**
+ * Value returned by useTurnstile
+ */
+export interface UseTurnstileResult {
+  /** Ref to attach to the element the widget is rendered into */
+  ref: RefCallback<HTMLElement>;
+  /** Current token, or null */
+  token: string | null;
+  /** Widget lifecycle state */
+  status: TurnstileStatus;
+  /** Catalog entry of the last error while status is 'error', or null */
+  error: TurnstileErrorInfo | null;
+  /** Resets the widget and clears the token */
+  reset: () => void;
+  /** Runs the challenge for widgets rendered with `execution: 'execute'` */
+  execute: () => void;
+  /** Controller of the rendered widget, or null while loading or unmounted */
+  controller: TurnstileController | null;
+}
+
+/**
+ * Renders a Cloudflare Turnstile widget into the element given to `ref`, with the same
+ * script loader, auto-refresh and test-key fallback as TurnstileWidget.astro.
+ * The widget is removed on unmount, including StrictMode's mount/unmount/mount cycle.
+ *
+ * @param options - Site key, render parameters, refresh settings and callbacks
+ * @returns Ref, token, status and widget actions
+ */
+export function useTurnstile(options: UseTurnstileOptions = {}): UseTurnstileResult {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [status, setStatus] = useState<TurnstileStatus>('loading');
+  const [error, setError] = useState<TurnstileErrorInfo | null>(null);
+  const [controller, setController] = useState<TurnstileController | null>(null);
+
+  // Callbacks can change on every render without re-rendering the widget
+  const callbacks = useRef(options);
+  callbacks.current = options;
+
+  const { siteKey, refreshStrategy, refreshInterval, onToken, onExpire, onError, ...renderOptions } = options;
+  // Re-render the widget only when a render parameter actually changes (functions are read from callbacks)
+  const paramsKey = JSON.stringify(renderOptions);
+
+  useEffect(() => {
+    if (!container) return;
+
+    let cancelled = false;
+    let current: TurnstileController | null = null;
+    let stopRefresh: (() => void) | null = null;
+    const unsubscribers: Array<() => void> = [];
+
+    setStatus('loading');
+    setToken(null);
+    setError(null);
+
+    // Resolved before loading the script, so a configuration error is not reported as a blocked script
+    let sitekey: string;
+    try {
+      sitekey = getSiteKey(siteKey);
+    } catch (error) {
+      if (!(error instanceof TurnstileConfigError)) throw error;
+      getTurnstileLogger().error(error.message);
+      setError(getTurnstileError('invalid-site-key', renderOptions.language));
+      setStatus('error');
+      return;
+    }
+
+    loadTurnstile()
+      .then(() => {
+        if (cancelled) return;
+
+        const params: TurnstileRenderParams = {
+          ...(JSON.parse(paramsKey) as Omit<TurnstileRenderParams, 'sitekey'>),
+          sitekey,
+          'before-interactive-callback': () => callbacks.current['before-interactive-callback']?.(),
+          'after-interactive-callback': () => callbacks.current['after-interactive-callback']?.(),
+          'unsupported-callback': () => callbacks.current['unsupported-callback']?.(),
+        };
+        current = new TurnstileController(container, params);
+        unsubscribers.push(
+          current.on('token', (value) => {
+            setToken(value);
+            setError(null);
+            setStatus('solved');
+            callbacks.current.onToken?.(value);
+          }),
+          current.on('expired', () => {
+            setToken(null);
+            setStatus('expired');
+            callbacks.current.onExpire?.();
+          }),
+          current.on('error', (code) => {
+            const details = getTurnstileError(code, params.language);
+            setToken(null);
+            setError(details);
+            setStatus('error');
+            callbacks.current.onError?.(code, details);
+          })
+        );
+
+        setStatus('ready');
+        current.render();
+        stopRefresh = setupAutoRefresh(current, { strategy: refreshStrategy, refreshInterval });
+        setController(current);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        getTurnstileLogger().error('Turnstile failed to load:', error);
+        setError(getTurnstileError('script-load-failed', renderOptions.language));
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      stopRefresh?.();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      current?.remove();
+      setController(null);
+    };
+  }, [container, siteKey, paramsKey, refreshStrategy, refreshInterval]);
+
+  const reset = useCallback(() => {
+    if (!controller) return;
+    setToken(null);
+    setError(null);
+    setStatus('ready');
+    controller.reset();
+  }, [controller]);
+
+  const execute = useCallback(() => {
+    controller?.execute();
+  }, [controller]);
+
+  return { ref: setContainer, token, status, error, reset, execute, controller };
+}
+
+/**
+ * Props for the Turnstile React component
+ */
+export interface TurnstileProps extends UseTurnstileOptions {
+  /** ID of the container element */
+  id?: string;
+  /** Class name of the container element */
+  className?: string;
+  /** Inline style of the container element */
+  style?: CSSProperties;
+}
+
+/**
+ * Cloudflare Turnstile widget for React islands.
+ *
+ * @example
+ * <Turnstile siteKey={import.meta.env.PUBLIC_TURNSTILE_SITE_KEY} action="contact" onToken={setToken} />
+ */
+export function Turnstile({ id, className, style, ...options }: TurnstileProps) {
+  const { ref } = useTurnstile(options);
+
+  return <div id={id} className={className} style={style} ref={ref} />;
+}
@@ -2,11 +2,21 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   getSiteKey,
   isTestSiteKey,
+  isTestSecretKey,
   getTurnstileToken,
   setupAutoRefresh,
   TURNSTILE_TEST_SITE_KEY,
   TURNSTILE_TEST_SECRET_KEY,
+  TURNSTILE_TEST_SECRET_KEY_FAIL,
+  TURNSTILE_TEST_SECRET_KEY_SPENT,
+  TURNSTILE_TEST_SITE_KEY_BLOCKED,
+  TURNSTILE_TEST_SITE_KEY_INTERACTIVE,
+  TURNSTILE_TEST_SITE_KEY_INVISIBLE,
+  TURNSTILE_TEST_SITE_KEY_INVISIBLE_BLOCKED,
+  TurnstileConfigError,
 } from './turnstile-client';
+import { resetTurnstileLoader, TURNSTILE_SCRIPT_URL } from './turnstile-loader';
+import { TurnstileController } from './turnstile-controller';
 
 describe('turnstile-client', () => {
   describe('isTestSiteKey', () => {
@@ -26,6 +36,26 @@ describe('turnstile-client', () => {
     });
   });
 
+  describe('dummy keys', () => {
+    it('should recognise every Cloudflare dummy site key', () => {
+      expect(isTestSiteKey(TURNSTILE_TEST_SITE_KEY_BLOCKED)).toBe(true);
+      expect(isTestSiteKey(TURNSTILE_TEST_SITE_KEY_INVISIBLE)).toBe(true);
+      expect(isTestSiteKey(TURNSTILE_TEST_SITE_KEY_INVISIBLE_BLOCKED)).toBe(true);
+      expect(isTestSiteKey(TURNSTILE_TEST_SITE_KEY_INTERACTIVE)).toBe(true);
+    });
+
+    it('should recognise every Cloudflare dummy secret key', () => {
+      expect(isTestSecretKey(TURNSTILE_TEST_SECRET_KEY)).toBe(true);
+      expect(isTestSecretKey(TURNSTILE_TEST_SECRET_KEY_FAIL)).toBe(true);
+      expect(isTestSecretKey(TURNSTILE_TEST_SECRET_KEY_SPENT)).toBe(true);
+    });
+
+    it('should not treat production or empty secrets as test keys', () => {
+      expect(isTestSecretKey('0x4AAAAAAB2Tn5Qf6KFSt94LxxxxxxxxxxxA')).toBe(false);
+      expect(isTestSecretKey('')).toBe(false);
+    });
+  });
+
   describe('getSiteKey', () => {
     it('should return test key when siteKey is undefined', () => {
       expect(getSiteKey(undefined)).toBe(TURNSTILE_TEST_SITE_KEY);
@@ -36,6 +66,19 @@ describe('turnstile-client', () => {
       expect(getSiteKey('   ')).toBe(TURNSTILE_TEST_SITE_KEY);
     });
 
+    it('should treat the string "undefined" from an unset env var as missing', () => {
+      expect(getSiteKey('undefined')).toBe(TURNSTILE_TEST_SITE_KEY);
+    });
+
+    it('should throw for a missing key in a production build', () => {
+      vi.stubEnv('PROD', true);
+      try {
+        expect(() => getSiteKey(undefined)).toThrow(TurnstileConfigError);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
     it('should return test key when forceTest is true', () => {
       expect(getSiteKey('0x4AAAAAAB2Tn5Qf6KFSt94L', true)).toBe(TURNSTILE_TEST_SITE_KEY);
     });
@@ -113,6 +156,10 @@ describe('turnstile-client', () => {
       vi.clearAllTimers();
       vi.useRealTimers();
       (window as any).turnstile = originalTurnstile;
+      document
+        .querySelectorAll(`script[src^="${TURNSTILE_SCRIPT_URL}"]`)
+        .forEach((script) => script.remove());
+      resetTurnstileLoader();
       vi.clearAllMocks();
     });
 
@@ -235,31 +282,43 @@ describe('turnstile-client', () => {
       vi.useRealTimers();
     });
 
-    it.skip('should handle turnstile loading after DOMContentLoaded', () => {
-      // This test is complex due to nested intervals and timing dependencies
-      // The behavior is covered by integration tests in actual usage
-      // TODO: Fix timing issues with fake timers for nested intervals
+    it('should set up refresh once the shared loader reports Turnstile ready', async () => {
       vi.useFakeTimers();
       (window as any).turnstile = undefined;
 
-      const cleanup = setupAutoRefresh(mockWidget);
-
-      // Set widget ID first (needed for setupReset to work)
+      const cleanup = setupAutoRefresh(mockWidget, { refreshInterval: 1000 });
       mockWidget.setAttribute('data-widget-id', 'widget-123');
 
-      // Simulate turnstile loading
+      // Simulate the injected script calling its onload callback
       (window as any).turnstile = mockTurnstile;
+      (window as any).__purplebirdTurnstileOnload();
+      await vi.advanceTimersByTimeAsync(0);
 
-      // Fast-forward enough time for all intervals to run
-      vi.advanceTimersByTime(1300);
+      vi.advanceTimersByTime(100);
+      vi.advanceTimersByTime(1000);
 
-      // Should now call reset
       expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-123');
 
       cleanup();
       vi.useRealTimers();
     });
 
+    it('should call onError when the Turnstile script fails to load', async () => {
+      (window as any).turnstile = undefined;
+      const onError = vi.fn();
+
+      const cleanup = setupAutoRefresh(mockWidget, { onError });
+      document
+        .querySelector(`script[src^="${TURNSTILE_SCRIPT_URL}"]`)!
+        .dispatchEvent(new Event('error'));
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(onError).toHaveBeenCalledWith(expect.any(Error));
+
+      cleanup();
+    });
+
     it('should stop checking for widget after timeout', () => {
       vi.useFakeTimers();
       const clearIntervalSpy = vi.spyOn(window, 'clearInterval');
@@ -352,6 +411,204 @@ describe('turnstile-client', () => {
     });
   });
 
+  describe('setupAutoRefresh with expiry strategy', () => {
+    let container: HTMLElement;
+    let mockTurnstile: any;
+    let originalTurnstile: any;
+    let renderParams: any;
+    let visibilityState: DocumentVisibilityState;
+
+    const setVisibility = (state: DocumentVisibilityState) => {
+      visibilityState = state;
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      container = document.createElement('div');
+      document.body.appendChild(container);
+
+      mockTurnstile = {
+        render: vi.fn((_container, params) => {
+          renderParams = params;
+          return 'widget-123';
+        }),
+        reset: vi.fn(),
+        remove: vi.fn(),
+        getResponse: vi.fn(() => ''),
+        isExpired: vi.fn(() => false),
+      };
+      originalTurnstile = (window as any).turnstile;
+      (window as any).turnstile = mockTurnstile;
+
+      visibilityState = 'visible';
+      Object.defineProperty(document, 'visibilityState', {
+        configurable: true,
+        get: () => visibilityState,
+      });
+    });
+
+    afterEach(() => {
+      container.remove();
+      (window as any).turnstile = originalTurnstile;
+      delete (document as any).visibilityState;
+      vi.useRealTimers();
+    });
+
+    const renderController = () => {
+      const controller = new TurnstileController(container, { sitekey: 'site-key' });
+      controller.render();
+      return controller;
+    };
+
+    it('should not reset on a fixed timer before a token is stale', () => {
+      const controller = renderController();
+      const cleanup = setupAutoRefresh(controller, { strategy: 'expiry', maxTokenAge: 10000 });
+
+      renderParams.callback('token-1');
+      vi.advanceTimersByTime(9999);
+
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+      cleanup();
+    });
+
+    it('should reset once the token reaches maxTokenAge', () => {
+      const controller = renderController();
+      const onRefresh = vi.fn();
+      const cleanup = setupAutoRefresh(controller, { strategy: 'expiry', maxTokenAge: 10000, onRefresh });
+
+      renderParams.callback('token-1');
+      vi.advanceTimersByTime(10000);
+
+      expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-123');
+      expect(onRefresh).toHaveBeenCalledTimes(1);
+      cleanup();
+    });
+
+    it('should not reset while no token has been issued', () => {
+      const controller = renderController();
+      const cleanup = setupAutoRefresh(controller, { strategy: 'expiry', maxTokenAge: 10000 });
+
+      vi.advanceTimersByTime(60000);
+
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+      cleanup();
+    });
+
+    it('should reset when the token expires', () => {
+      const controller = renderController();
+      const cleanup = setupAutoRefresh(controller, { strategy: 'expiry' });
+
+      renderParams.callback('token-1');
+      renderParams['expired-callback']();
+
+      expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-123');
+      cleanup();
+    });
+
+    it('should wait while hidden and refresh a stale token on return', () => {
+      const controller = renderController();
+      const cleanup = setupAutoRefresh(controller, { strategy: 'expiry', maxTokenAge: 10000 });
+
+      renderParams.callback('token-1');
+      setVisibility('hidden');
+      vi.advanceTimersByTime(20000);
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+
+      setVisibility('visible');
+      expect(mockTurnstile.reset).toHaveBeenCalledTimes(1);
+      cleanup();
+    });
+
+    it('should not refresh a fresh token when the tab becomes visible', () => {
+      const controller = renderController();
+      const cleanup = setupAutoRefresh(controller, { strategy: 'expiry', maxTokenAge: 10000 });
+
+      renderParams.callback('token-1');
+      setVisibility('hidden');
+      vi.advanceTimersByTime(5000);
+      setVisibility('visible');
+
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+      cleanup();
+    });
+
+    it('should defer the refresh while a submit is in flight', () => {
+      const controller = renderController();
+      let submitting = true;
+      const cleanup = setupAutoRefresh(controller, {
+        strategy: 'expiry',
+        maxTokenAge: 10000,
+        isSubmitting: () => submitting,
+      });
+
+      renderParams.callback('token-1');
+      vi.advanceTimersByTime(12000);
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+
+      submitting = false;
+      vi.advanceTimersByTime(1000);
+      expect(mockTurnstile.reset).toHaveBeenCalledTimes(1);
+      cleanup();
+    });
+
+    it('should track tokens of an element-based widget', () => {
+      container.setAttribute('data-widget-id', 'widget-123');
+      const cleanup = setupAutoRefresh(container, { strategy: 'expiry', maxTokenAge: 60000 });
+
+      mockTurnstile.getResponse.mockReturnValue('token-1');
+      vi.advanceTimersByTime(5000);
+      vi.advanceTimersByTime(59999);
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-123');
+      cleanup();
+    });
+
+    it('should stop listening after cleanup', () => {
+      const controller = renderController();
+      const cleanup = setupAutoRefresh(controller, { strategy: 'expiry', maxTokenAge: 10000 });
+
+      renderParams.callback('token-1');
+      cleanup();
+      vi.advanceTimersByTime(10000);
+      renderParams['expired-callback']();
+
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setupAutoRefresh with interval strategy', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should skip a refresh cycle while a submit is in flight', () => {
+      vi.useFakeTimers();
+      const mockTurnstile = { reset: vi.fn() };
+      const originalTurnstile = (window as any).turnstile;
+      (window as any).turnstile = mockTurnstile;
+      const widget = document.createElement('div');
+      widget.setAttribute('data-widget-id', 'widget-123');
+      let submitting = true;
+
+      const cleanup = setupAutoRefresh(widget, {
+        refreshInterval: 1000,
+        isSubmitting: () => submitting,
+      });
+      vi.advanceTimersByTime(1100);
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+
+      submitting = false;
+      vi.advanceTimersByTime(1000);
+      expect(mockTurnstile.reset).toHaveBeenCalledTimes(1);
+
+      cleanup();
+      (window as any).turnstile = originalTurnstile;
+    });
+  });
+
   describe('constants', () => {
     it('should have correct test keys', () => {
       expect(TURNSTILE_TEST_SITE_KEY).toBe('1x00000000000000000000AA');
@@ -1,15 +1,83 @@
-import type { AutoRefreshOptions } from './types';
+import type { AutoRefreshOptions, RefreshStrategy, ResolveSiteKeyOptions, TurnstileMode } from './types';
+import { TurnstileController } from './turnstile-controller';
+import { loadTurnstile } from './turnstile-loader';
+import { emitTurnstileEvent, getTurnstileLogger } from './turnstile-telemetry';
+import { turnstileRegistry } from './turnstile-registry';
 
 /**
- * Cloudflare Turnstile test site key for development
+ * Cloudflare Turnstile test site key for development (always passes, visible widget)
  */
 export const TURNSTILE_TEST_SITE_KEY = '1x00000000000000000000AA';
 
 /**
- * Cloudflare Turnstile test secret key for development
+ * Test site key that always blocks (visible widget)
+ */
+export const TURNSTILE_TEST_SITE_KEY_BLOCKED = '2x00000000000000000000AB';
+
+/**
+ * Test site key that always passes with an invisible widget
+ */
+export const TURNSTILE_TEST_SITE_KEY_INVISIBLE = '1x00000000000000000000BB';
+
+/**
+ * Test site key that always blocks with an invisible widget
+ */
+export const TURNSTILE_TEST_SITE_KEY_INVISIBLE_BLOCKED = '2x00000000000000000000BB';
+
+/**
+ * Test site key that forces an interactive challenge (visible widget)
+ */
+export const TURNSTILE_TEST_SITE_KEY_INTERACTIVE = '3x00000000000000000000FF';
+
+/**
+ * Cloudflare Turnstile test secret key for development (always passes)
  */
 export const TURNSTILE_TEST_SECRET_KEY = '1x0000000000000000000000000000000AA';
 
+/**
+ * Test secret key that always fails verification
+ */
+export const TURNSTILE_TEST_SECRET_KEY_FAIL = '2x0000000000000000000000000000000AA';
+
+/**
+ * Test secret key that reports the token as already spent (`timeout-or-duplicate`)
+ */
+export const TURNSTILE_TEST_SECRET_KEY_SPENT = '3x0000000000000000000000000000000AA';
+
+/**
+ * Token produced by the test site keys, accepted only by the test secret keys
+ */
+export const TURNSTILE_DUMMY_TOKEN = 'XXXX.DUMMY.TOKEN.XXXX';
+
+const TEST_SITE_KEYS = [
+  TURNSTILE_TEST_SITE_KEY,
+  TURNSTILE_TEST_SITE_KEY_BLOCKED,
+  TURNSTILE_TEST_SITE_KEY_INVISIBLE,
+  TURNSTILE_TEST_SITE_KEY_INVISIBLE_BLOCKED,
+  TURNSTILE_TEST_SITE_KEY_INTERACTIVE,
+];
+
+const TEST_SECRET_KEYS = [
+  TURNSTILE_TEST_SECRET_KEY,
+  TURNSTILE_TEST_SECRET_KEY_FAIL,
+  TURNSTILE_TEST_SECRET_KEY_SPENT,
+];
+
+/**
+ * Production site keys start with `0x` followed by Cloudflare's base62 identifier
+ */
+const SITE_KEY_PATTERN = /^0x[\w-]{16,}$/;
+
+/**
+ * Thrown when a Turnstile key is missing, malformed or a test key where a real key is required
+ */
+export class TurnstileConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TurnstileConfigError';
+  }
+}
+
 /**
  * Default refresh interval (2 minutes in milliseconds)
  */
@@ -25,22 +93,47 @@ const WIDGET_INIT_TIMEOUT = 10000;
  */
 const WIDGET_CHECK_INTERVAL = 100;
 
+/**
+ * Tokens are valid for 5 minutes; treat them as stale 30 seconds early (4.5 minutes)
+ */
+const DEFAULT_MAX_TOKEN_AGE = 270000;
+
+/**
+ * How often the expiry strategy samples an element-based widget for a new or expired token (5 seconds)
+ */
+const EXPIRY_CHECK_INTERVAL = 5000;
+
+/**
+ * Delay before retrying a refresh that was deferred by an in-flight submit (1 second)
+ */
+const BUSY_RETRY_DELAY = 1000;
+
 /**
  * Sets up automatic token refresh for a Cloudflare Turnstile widget.
- * The widget will be reset before the token expires to prevent expiration issues.
+ *
+ * With the default `'interval'` strategy the widget is reset every `refreshInterval`
+ * to stay ahead of the 5-minute token expiry. With the `'expiry'` strategy the widget
+ * is only reset once its token is stale or expired, never while the tab is hidden
+ * (a stale token is refreshed when the user comes back) and never while `isSubmitting()`
+ * reports a submit in flight.
  * 
- * @param widget - The widget element (must have class 'cf-turnstile' or be the container)
+ * @param widget - The widget element (must have class 'cf-turnstile' or be the container), or a TurnstileController
  * @param options - Configuration options for auto-refresh
  * @returns Cleanup function to stop auto-refresh
  */
 export function setupAutoRefresh(
-  widget: HTMLElement,
+  widget: HTMLElement | TurnstileController,
   options: AutoRefreshOptions = {}
 ): () => void {
+  if (options.strategy === 'expiry') {
+    return setupExpiryRefresh(widget, options);
+  }
+
   const {
     refreshInterval = DEFAULT_REFRESH_INTERVAL,
     onRefresh,
     onError,
+    isSubmitting,
   } = options;
 
   let turnstileResetInterval: number | null = null;
@@ -69,7 +162,7 @@ export function setupAutoRefresh(
 
     // Wait for widget to be initialized (check for widget ID)
     checkWidgetInterval = window.setInterval(() => {
-      const widgetId = widget.getAttribute('data-widget-id');
+      const widgetId = getWidgetId(widget);
       if (widgetId) {
         if (checkWidgetInterval !== null) {
           clearInterval(checkWidgetInterval);
@@ -78,14 +171,9 @@ export function setupAutoRefresh(
 
         // Reset every refreshInterval to stay ahead of 5-minute expiration
         turnstileResetInterval = window.setInterval(() => {
-          try {
-            window.turnstile!.reset(widgetId);
-            onRefresh?.();
-          } catch (error) {
-            const err = error instanceof Error ? error : new Error(String(error));
-            console.warn('Turnstile reset error:', err);
-            onError?.(err);
-          }
+          // Skip this cycle rather than invalidate a token that is being submitted
+          if (isSubmitting?.()) return;
+          resetWidget(widgetId, 'interval', onRefresh, onError);
         }, refreshInterval);
       }
     }, WIDGET_CHECK_INTERVAL);
@@ -102,45 +190,184 @@ export function setupAutoRefresh(
   // Clean up interval when page unloads
   window.addEventListener('beforeunload', cleanup);
 
-  // Wait for Turnstile script to load
-  if (window.turnstile) {
-    setupReset();
-  } else {
-    // If script hasn't loaded yet, wait for it
-    const loadHandler = () => {
-      // Give Turnstile a moment to initialize
-      setTimeout(setupReset, 500);
-    };
-    window.addEventListener('load', loadHandler);
-    
-    // Also check periodically in case load event already fired
-    const checkScript = setInterval(() => {
-      if (window.turnstile) {
-        clearInterval(checkScript);
-        setupReset();
+  whenTurnstileReady(() => !isCleanedUp && setupReset(), onError);
+
+  return cleanup;
+}
+
+/**
+ * Expiry-driven refresh: tracks when the current token was issued and resets the widget
+ * only when that token is stale or expired and the user can see the page.
+ */
+function setupExpiryRefresh(
+  widget: HTMLElement | TurnstileController,
+  options: AutoRefreshOptions
+): () => void {
+  const {
+    maxTokenAge = DEFAULT_MAX_TOKEN_AGE,
+    onRefresh,
+    onError,
+    isSubmitting,
+  } = options;
+
+  let issuedAt: number | null = null;
+  let lastToken: string | null = null;
+  let refreshPending = false;
+  let staleTimer: number | null = null;
+  let busyTimer: number | null = null;
+  let checkTimer: number | null = null;
+  let isCleanedUp = false;
+  const unsubscribers: Array<() => void> = [];
+
+  const clearTimers = () => {
+    if (staleTimer !== null) {
+      clearTimeout(staleTimer);
+      staleTimer = null;
+    }
+    if (busyTimer !== null) {
+      clearTimeout(busyTimer);
+      busyTimer = null;
+    }
+  };
+
+  const isHidden = () => document.visibilityState === 'hidden';
+
+  const refresh = () => {
+    const widgetId = getWidgetId(widget);
+    if (isCleanedUp || !widgetId || !window.turnstile) return;
+
+    clearTimers();
+    refreshPending = true;
+
+    // Wait for the user to return; handleVisibilityChange picks this up
+    if (isHidden()) return;
+
+    if (isSubmitting?.()) {
+      busyTimer = window.setTimeout(refresh, BUSY_RETRY_DELAY);
+      return;
+    }
+
+    refreshPending = false;
+    issuedAt = null;
+    lastToken = null;
+    resetWidget(widgetId, 'expiry', onRefresh, onError);
+  };
+
+  const handleToken = (token: string) => {
+    clearTimers();
+    refreshPending = false;
+    issuedAt = Date.now();
+    lastToken = token;
+    staleTimer = window.setTimeout(refresh, maxTokenAge);
+  };
+
+  const isStale = () => {
+    if (refreshPending) return true;
+    if (issuedAt !== null && Date.now() - issuedAt >= maxTokenAge) return true;
+
+    const widgetId = getWidgetId(widget);
+    return Boolean(widgetId && lastToken && window.turnstile?.isExpired(widgetId));
+  };
+
+  const handleVisibilityChange = () => {
+    if (!isHidden() && isStale()) {
+      refresh();
+    }
+  };
+
+  const cleanup = () => {
+    if (isCleanedUp) return;
+    isCleanedUp = true;
+
+    clearTimers();
+    if (checkTimer !== null) {
+      clearInterval(checkTimer);
+      checkTimer = null;
+    }
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('beforeunload', cleanup);
+  };
+
+  if (widget instanceof TurnstileController) {
+    unsubscribers.push(widget.on('token', handleToken), widget.on('expired', refresh));
+  } else if (widget) {
+    // An element gives no token events, so sample its response cheaply; this never resets by itself
+    checkTimer = window.setInterval(() => {
+      const widgetId = getWidgetId(widget);
+      if (!widgetId || !window.turnstile) return;
+
+      const token = window.turnstile.getResponse(widgetId);
+      if (token && token !== lastToken) {
+        handleToken(token);
+      } else if (token && window.turnstile.isExpired(widgetId)) {
+        refresh();
       }
-    }, 100);
-    
-    // Clean up check after 5 seconds
-    setTimeout(() => {
-      clearInterval(checkScript);
-    }, 5000);
+    }, EXPIRY_CHECK_INTERVAL);
+  }
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('beforeunload', cleanup);
+
+  if (!window.turnstile) {
+    whenTurnstileReady(() => {}, onError);
   }
 
   return cleanup;
 }
 
+function getWidgetId(widget: HTMLElement | TurnstileController): string | null {
+  if (widget instanceof TurnstileController) {
+    return widget.widgetId;
+  }
+  return widget.getAttribute('data-widget-id');
+}
+
+function resetWidget(
+  widgetId: string,
+  strategy: RefreshStrategy,
+  onRefresh?: () => void,
+  onError?: (error: Error) => void
+): void {
+  try {
+    window.turnstile!.reset(widgetId);
+    emitTurnstileEvent({ type: 'widget-refresh', widgetId, strategy });
+    onRefresh?.();
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    getTurnstileLogger().warn('Turnstile reset error:', err);
+    onError?.(err);
+  }
+}
+
+/**
+ * Runs `callback` once the Turnstile API is available, loading the script if needed.
+ */
+function whenTurnstileReady(callback: () => void, onError?: (error: Error) => void): void {
+  // Wait for Turnstile script to load (shared with every other widget on the page)
+  if (window.turnstile) {
+    callback();
+    return;
+  }
+
+  loadTurnstile()
+    .then(callback)
+    .catch((error) => {
+      const err = error instanceof Error ? error : new Error(String(error));
+      getTurnstileLogger().warn('Turnstile script load error:', err);
+      onError?.(err);
+    });
+}
+
 /**
- * Gets the Turnstile token from a form element.
+ * Gets the Turnstile token from a form element, taken from the form's own widget
+ * (see TurnstileWidgetRegistry.getTokenFor).
  * 
  * @param form - The form element containing the Turnstile widget
  * @returns The Turnstile token, or null if not found
  */
 export function getTurnstileToken(form: HTMLFormElement): string | null {
-  const turnstileInput = form.querySelector<HTMLInputElement>(
-    'input[name="cf-turnstile-response"]'
-  );
-  return turnstileInput?.value || null;
+  return turnstileRegistry.getTokenFor(form);
 }
 
 /**
@@ -150,20 +377,112 @@ export function getTurnstileToken(form: HTMLFormElement): string | null {
  * @returns Whether the site key is a test key
  */
 export function isTestSiteKey(siteKey: string): boolean {
-  return siteKey === TURNSTILE_TEST_SITE_KEY || !siteKey || siteKey.trim() === '';
+  return !siteKey || siteKey.trim() === '' || TEST_SITE_KEYS.includes(siteKey.trim());
+}
+
+/**
+ * Checks if a secret key is one of Cloudflare's dummy secret keys.
+ *
+ * @param secretKey - The secret key to check
+ * @returns Whether the secret key is a test key
+ */
+export function isTestSecretKey(secretKey: string): boolean {
+  return Boolean(secretKey) && TEST_SECRET_KEYS.includes(secretKey.trim());
 }
 
 /**
  * Gets the appropriate site key, falling back to test key in development.
+ * In production a missing or test key throws (see resolveSiteKey).
  * 
  * @param siteKey - The provided site key
  * @param forceTest - Force use of test key (for development)
  * @returns The site key to use
  */
 export function getSiteKey(siteKey?: string, forceTest = false): string {
-  if (forceTest || !siteKey || siteKey.trim() === '') {
+  if (forceTest) {
+    return TURNSTILE_TEST_SITE_KEY;
+  }
+  return resolveSiteKey(siteKey);
+}
+
+/**
+ * Resolves the site key to render with, according to the mode.
+ *
+ * - development: a missing key (undefined, empty, or the string "undefined" from an unset
+ *   env var) falls back to the test key; a malformed key is warned about
+ * - production: a missing, malformed or test key throws, so the build or render fails
+ *   instead of shipping a widget every bot passes
+ *
+ * @param siteKey - The configured site key
+ * @param options - Mode and whether test keys are allowed in production
+ * @returns The site key to use
+ * @throws {TurnstileConfigError} In production, if the key is missing, malformed or a test key
+ */
+export function resolveSiteKey(siteKey?: string | null, options: ResolveSiteKeyOptions = {}): string {
+  const { mode = detectTurnstileMode(), allowTestKeys = false } = options;
+  const key = normalizeKey(siteKey);
+  const isTestKey = key !== '' && isTestSiteKey(key);
+
+  if (mode === 'production') {
+    if (!key) {
+      throw new TurnstileConfigError(
+        'Turnstile site key is missing. Set PUBLIC_TURNSTILE_SITE_KEY for production builds.'
+      );
+    }
+    if (isTestKey && !allowTestKeys) {
+      throw new TurnstileConfigError(
+        `Turnstile site key ${key} is a Cloudflare test key, which lets every visitor pass. Use your production site key.`
+      );
+    }
+  }
+
+  if (!key) {
     return TURNSTILE_TEST_SITE_KEY;
   }
-  return siteKey;
+
+  if (!isTestKey && !SITE_KEY_PATTERN.test(key)) {
+    const message = `Turnstile site key "${key}" does not look like a Cloudflare site key (0x...).`;
+    if (mode === 'production') {
+      throw new TurnstileConfigError(message);
+    }
+    getTurnstileLogger().warn(message);
+  }
+
+  return key;
+}
+
+// Declared the same way as vite/client, so the two merge when a project uses Vite's types
+declare global {
+  interface ImportMeta {
+    readonly env: ImportMetaEnv;
+  }
+  interface ImportMetaEnv {}
+}
+
+/**
+ * Detects whether keys should be checked strictly: `import.meta.env.PROD` in Vite and Astro
+ * builds, otherwise NODE_ENV.
+ *
+ * @returns The detected mode
+ */
+export function detectTurnstileMode(): TurnstileMode {
+  // Written out literally so Vite and Vitest can replace it before types are stripped
+  const env: { PROD?: boolean } | undefined = import.meta.env;
+  if (typeof env?.PROD === 'boolean') {
+    return env.PROD ? 'production' : 'development';
+  }
+  if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'production') {
+    return 'production';
+  }
+  return 'development';
+}
+
+/**
+ * Trims a configured key, treating non-strings and the strings "undefined" and "null"
+ * (an unset env var interpolated into a string) as missing
+ */
+function normalizeKey(key: unknown): string {
+  const trimmed = typeof key === 'string' ? key.trim() : '';
+  return trimmed === 'undefined' || trimmed === 'null' ? '' : trimmed;
 }
 
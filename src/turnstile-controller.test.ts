@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TurnstileController } from './turnstile-controller';
+import { TurnstileError } from './turnstile-errors';
+
+describe('TurnstileController', () => {
+  let container: HTMLElement;
+  let mockTurnstile: any;
+  let renderParams: any;
+  let originalTurnstile: any;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+
+    renderParams = null;
+    mockTurnstile = {
+      render: vi.fn((_container, params) => {
+        renderParams = params;
+        return 'widget-123';
+      }),
+      reset: vi.fn(),
+      remove: vi.fn(),
+      getResponse: vi.fn(() => ''),
+      isExpired: vi.fn(() => false),
+      execute: vi.fn(),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+  });
+
+  afterEach(() => {
+    container.remove();
+    (window as any).turnstile = originalTurnstile;
+    vi.useRealTimers();
+  });
+
+  it('should render explicitly and own the widget ID', () => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key', theme: 'dark' });
+
+    expect(controller.widgetId).toBeNull();
+    expect(controller.render()).toBe('widget-123');
+    expect(controller.widgetId).toBe('widget-123');
+    expect(mockTurnstile.render).toHaveBeenCalledWith(
+      container,
+      expect.objectContaining({ sitekey: 'site-key', theme: 'dark' })
+    );
+  });
+
+  it('should only render once', () => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+
+    controller.render();
+    controller.render();
+
+    expect(mockTurnstile.render).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw when the Turnstile script has not loaded', () => {
+    (window as any).turnstile = undefined;
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+
+    expect(() => controller.render()).toThrow('Turnstile script has not loaded');
+  });
+
+  it('should delegate reset, getResponse and isExpired to the owned widget', () => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+    controller.render();
+    mockTurnstile.getResponse.mockReturnValue('token-abc');
+
+    controller.reset();
+    expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-123');
+    expect(controller.getResponse()).toBe('token-abc');
+    expect(controller.isExpired()).toBe(false);
+    expect(mockTurnstile.isExpired).toHaveBeenCalledWith('widget-123');
+  });
+
+  it('should throw on reset before render', () => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+
+    expect(() => controller.reset()).toThrow('has not been rendered');
+    expect(controller.getResponse()).toBeNull();
+  });
+
+  it('should render before executing', () => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key', execution: 'execute' });
+
+    controller.execute();
+
+    expect(mockTurnstile.render).toHaveBeenCalledTimes(1);
+    expect(mockTurnstile.execute).toHaveBeenCalledWith(container);
+  });
+
+  it('should emit typed events and still call render param callbacks', () => {
+    const callback = vi.fn();
+    const controller = new TurnstileController(container, { sitekey: 'site-key', callback });
+    const onToken = vi.fn();
+    const onExpired = vi.fn();
+    const onError = vi.fn();
+    const onTimeout = vi.fn();
+    controller.on('token', onToken);
+    controller.on('expired', onExpired);
+    controller.on('error', onError);
+    controller.on('timeout', onTimeout);
+    controller.render();
+
+    renderParams.callback('token-abc');
+    renderParams['expired-callback']();
+    renderParams['error-callback']('110200');
+    renderParams['timeout-callback']();
+
+    expect(callback).toHaveBeenCalledWith('token-abc');
+    expect(onToken).toHaveBeenCalledWith('token-abc');
+    expect(onExpired).toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith('110200');
+    expect(onTimeout).toHaveBeenCalled();
+  });
+
+  it('should stop calling a listener after unsubscribe', () => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+    const onToken = vi.fn();
+    const unsubscribe = controller.on('token', onToken);
+    controller.render();
+
+    unsubscribe();
+    renderParams.callback('token-abc');
+
+    expect(onToken).not.toHaveBeenCalled();
+  });
+
+  describe('waitForToken', () => {
+    it('should resolve immediately with a valid current token', async () => {
+      const controller = new TurnstileController(container, { sitekey: 'site-key' });
+      controller.render();
+      mockTurnstile.getResponse.mockReturnValue('token-abc');
+
+      await expect(controller.waitForToken()).resolves.toBe('token-abc');
+    });
+
+    it('should resolve when the challenge succeeds', async () => {
+      const controller = new TurnstileController(container, { sitekey: 'site-key' });
+      controller.render();
+
+      const promise = controller.waitForToken();
+      renderParams.callback('token-abc');
+
+      await expect(promise).resolves.toBe('token-abc');
+    });
+
+    it('should wait for a new token when the current one has expired', async () => {
+      const controller = new TurnstileController(container, { sitekey: 'site-key' });
+      controller.render();
+      mockTurnstile.getResponse.mockReturnValue('old-token');
+      mockTurnstile.isExpired.mockReturnValue(true);
+
+      const promise = controller.waitForToken();
+      renderParams.callback('new-token');
+
+      await expect(promise).resolves.toBe('new-token');
+    });
+
+    it('should reject when the challenge errors', async () => {
+      const controller = new TurnstileController(container, { sitekey: 'site-key' });
+      controller.render();
+
+      const promise = controller.waitForToken();
+      renderParams['error-callback']('300010');
+
+      await expect(promise).rejects.toThrow('300010');
+      await expect(promise).rejects.toBeInstanceOf(TurnstileError);
+      await expect(promise).rejects.toMatchObject({ code: '300010', category: 'challenge', retryable: true });
+    });
+
+    it('should reject when the widget is removed', async () => {
+      const controller = new TurnstileController(container, { sitekey: 'site-key' });
+      controller.render();
+
+      const promise = controller.waitForToken();
+      controller.remove();
+
+      await expect(promise).rejects.toThrow('removed');
+      expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-123');
+      expect(controller.widgetId).toBeNull();
+    });
+
+    it('should reject after the time limit', async () => {
+      vi.useFakeTimers();
+      const controller = new TurnstileController(container, { sitekey: 'site-key' });
+      controller.render();
+
+      const promise = controller.waitForToken(1000);
+      vi.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toThrow('Timed out');
+    });
+  });
+});
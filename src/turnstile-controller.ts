@@ -0,0 +1,293 @@
+import type {
+  TurnstileAPI,
+  TurnstileControllerEventMap,
+  TurnstileRenderParams,
+} from './types';
+import { emitTurnstileEvent, getTurnstileLogger } from './turnstile-telemetry';
+import { getTurnstileError, TurnstileError } from './turnstile-errors';
+
+type Listener<K extends keyof TurnstileControllerEventMap> = (
+  payload: TurnstileControllerEventMap[K]
+) => void;
+
+type ListenerMap = {
+  [K in keyof TurnstileControllerEventMap]: Set<Listener<K>>;
+};
+
+interface PendingToken {
+  resolve: (token: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Owns a single explicitly rendered Cloudflare Turnstile widget.
+ * Renders through `window.turnstile.render()`, keeps the returned widget ID
+ * and exposes the widget lifecycle as methods and typed events.
+ *
+ * @example
+ * const controller = new TurnstileController('#turnstile', { sitekey });
+ * controller.render();
+ * const token = await controller.waitForToken();
+ */
+export class TurnstileController {
+  private readonly container: string | HTMLElement;
+  private readonly params: TurnstileRenderParams;
+  private readonly listeners: ListenerMap = {
+    token: new Set(),
+    expired: new Set(),
+    error: new Set(),
+    timeout: new Set(),
+  };
+  private pending: PendingToken[] = [];
+  private id: string | null = null;
+  private removed = false;
+  // When the current challenge started, for time-to-token telemetry
+  private challengeStartedAt = 0;
+
+  /**
+   * @param container - Container element or selector the widget is rendered into
+   * @param params - Render parameters; callbacks given here are still called
+   */
+  constructor(container: string | HTMLElement, params: TurnstileRenderParams) {
+    this.container = container;
+    this.params = params;
+  }
+
+  /**
+   * Widget ID returned from render(), or null before rendering and after removal
+   */
+  get widgetId(): string | null {
+    return this.id;
+  }
+
+  /**
+   * Whether the challenge runs on render or waits for execute()
+   */
+  get execution(): 'render' | 'execute' {
+    return this.params.execution ?? 'render';
+  }
+
+  /**
+   * Renders the widget. Calling render() on an already rendered controller returns the existing ID.
+   * @returns Widget ID
+   * @throws If the Turnstile script has not loaded or the controller was removed
+   */
+  render(): string {
+    if (this.removed) {
+      throw new Error('TurnstileController has been removed');
+    }
+    if (this.id !== null) {
+      return this.id;
+    }
+
+    this.challengeStartedAt = Date.now();
+    const widgetId = getTurnstile().render(this.container, {
+      ...this.params,
+      callback: (token) => {
+        this.params.callback?.(token);
+        emitTurnstileEvent({
+          type: 'token-issued',
+          widgetId: this.id ?? widgetId,
+          action: this.params.action,
+          timeToToken: Date.now() - this.challengeStartedAt,
+        });
+        this.emit('token', token);
+      },
+      'expired-callback': () => {
+        this.params['expired-callback']?.();
+        emitTurnstileEvent({ type: 'token-expired', widgetId: this.id ?? widgetId });
+        this.emit('expired', undefined);
+      },
+      'error-callback': (error) => {
+        this.params['error-callback']?.(error);
+        emitTurnstileEvent({ type: 'widget-error', widgetId: this.id ?? widgetId, code: String(error) });
+        this.emit('error', error);
+      },
+      'timeout-callback': () => {
+        this.params['timeout-callback']?.();
+        emitTurnstileEvent({ type: 'widget-timeout', widgetId: this.id ?? widgetId });
+        this.emit('timeout', undefined);
+      },
+    });
+
+    this.id = widgetId;
+    emitTurnstileEvent({ type: 'widget-render', widgetId, action: this.params.action });
+    return widgetId;
+  }
+
+  /**
+   * Resets the widget, discarding the current token and starting a new challenge
+   */
+  reset(): void {
+    getTurnstile().reset(this.requireWidgetId());
+    this.challengeStartedAt = Date.now();
+  }
+
+  /**
+   * Removes the widget from the page. Pending waitForToken() calls are rejected.
+   */
+  remove(): void {
+    if (this.removed) return;
+    this.removed = true;
+
+    if (this.id !== null) {
+      window.turnstile?.remove(this.id);
+      this.id = null;
+    }
+
+    this.settle(null, new Error('Turnstile widget was removed'));
+  }
+
+  /**
+   * Gets the current token
+   * @returns Token, or null if the challenge has not been solved
+   */
+  getResponse(): string | null {
+    if (this.id === null) return null;
+    return getTurnstile().getResponse(this.id) || null;
+  }
+
+  /**
+   * Checks if the current token has expired
+   */
+  isExpired(): boolean {
+    return getTurnstile().isExpired(this.requireWidgetId());
+  }
+
+  /**
+   * Runs the challenge for a widget rendered with `execution: 'execute'`,
+   * rendering it first if necessary
+   */
+  execute(): void {
+    this.render();
+    this.challengeStartedAt = Date.now();
+    getTurnstile().execute(this.container);
+  }
+
+  /**
+   * Resolves with a valid token: immediately if one is available, otherwise
+   * when the next challenge succeeds.
+   *
+   * @param timeout - Optional time limit in milliseconds
+   * @returns The token
+   * @throws {TurnstileError} If the challenge fails; an Error if the widget times out, is removed, or the time limit passes
+   */
+  waitForToken(timeout?: number): Promise<string> {
+    if (this.removed) {
+      return Promise.reject(new Error('Turnstile widget was removed'));
+    }
+
+    const current = this.getResponse();
+    if (current && !this.isExpired()) {
+      return Promise.resolve(current);
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const entry: PendingToken = {
+        resolve: (token) => {
+          if (timer !== null) clearTimeout(timer);
+          resolve(token);
+        },
+        reject: (error) => {
+          if (timer !== null) clearTimeout(timer);
+          reject(error);
+        },
+      };
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          this.pending = this.pending.filter((item) => item !== entry);
+          reject(new Error(`Timed out waiting for Turnstile token after ${timeout}ms`));
+        }, timeout);
+      }
+
+      this.pending.push(entry);
+    });
+  }
+
+  /**
+   * Gets a valid token, running the challenge first for widgets rendered with `execution: 'execute'`
+   *
+   * @param timeout - Optional time limit in milliseconds
+   * @returns The token
+   */
+  requestToken(timeout?: number): Promise<string> {
+    if (this.execution !== 'execute' || this.removed) {
+      return this.waitForToken(timeout);
+    }
+
+    const current = this.getResponse();
+    if (current && !this.isExpired()) {
+      return Promise.resolve(current);
+    }
+
+    // Subscribe before executing so a synchronous callback is not missed
+    const token = this.waitForToken(timeout);
+    this.execute();
+    return token;
+  }
+
+  /**
+   * Subscribes to a widget event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof TurnstileControllerEventMap>(event: K, listener: Listener<K>): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener added with on()
+   */
+  off<K extends keyof TurnstileControllerEventMap>(event: K, listener: Listener<K>): void {
+    this.listeners[event].delete(listener);
+  }
+
+  private emit<K extends keyof TurnstileControllerEventMap>(
+    event: K,
+    payload: TurnstileControllerEventMap[K]
+  ): void {
+    if (event === 'token') {
+      this.settle(payload as string, null);
+    } else if (event === 'error') {
+      this.settle(null, new TurnstileError(getTurnstileError(payload as string, this.params.language)));
+    } else if (event === 'timeout') {
+      this.settle(null, new Error('Turnstile challenge timed out'));
+    }
+
+    for (const listener of [...this.listeners[event]]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        getTurnstileLogger().warn(`Turnstile ${event} listener error:`, error);
+      }
+    }
+  }
+
+  private settle(token: string | null, error: Error | null): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const entry of pending) {
+      if (token !== null) {
+        entry.resolve(token);
+      } else {
+        entry.reject(error!);
+      }
+    }
+  }
+
+  private requireWidgetId(): string {
+    if (this.id === null) {
+      throw new Error('Turnstile widget has not been rendered');
+    }
+    return this.id;
+  }
+}
+
+function getTurnstile(): TurnstileAPI {
+  if (!window.turnstile) {
+    throw new Error('Turnstile script has not loaded');
+  }
+  return window.turnstile;
+}
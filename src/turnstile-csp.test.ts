@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { getTurnstileCspDirectives, TURNSTILE_ORIGIN } from './turnstile-csp';
+import { TURNSTILE_SCRIPT_URL } from './turnstile-loader';
+
+describe('getTurnstileCspDirectives', () => {
+  it('should return the Cloudflare sources Turnstile needs', () => {
+    expect(getTurnstileCspDirectives()).toEqual({
+      'script-src': ['https://challenges.cloudflare.com'],
+      'frame-src': ['https://challenges.cloudflare.com'],
+      'connect-src': ['https://challenges.cloudflare.com'],
+    });
+    expect(new URL(TURNSTILE_SCRIPT_URL).origin).toBe(TURNSTILE_ORIGIN);
+  });
+
+  it('should allow the nonce in script-src', () => {
+    const directives = getTurnstileCspDirectives({ nonce: 'r4nd0m' });
+
+    expect(directives['script-src']).toEqual(['https://challenges.cloudflare.com', "'nonce-r4nd0m'"]);
+    expect(directives['frame-src']).toEqual(['https://challenges.cloudflare.com']);
+  });
+
+  it('should return fresh arrays that are safe to merge into', () => {
+    getTurnstileCspDirectives()['script-src'].push("'self'");
+
+    expect(getTurnstileCspDirectives()['script-src']).toEqual(['https://challenges.cloudflare.com']);
+  });
+});
@@ -0,0 +1,31 @@
+import type { TurnstileCspDirectives, TurnstileCspOptions } from './types';
+
+/**
+ * Origin serving the Turnstile script, its challenge iframe and the requests they make
+ */
+export const TURNSTILE_ORIGIN = 'https://challenges.cloudflare.com';
+
+/**
+ * Returns the Content-Security-Policy sources Turnstile needs, to merge into a site's own policy
+ * (a `Content-Security-Policy` header, `netlify.toml` or a `<meta>` tag). Directives the site
+ * does not set fall back to `default-src`, so add each of them to the policy.
+ *
+ * @param options - Pass the widget's `nonce` to allow it in `script-src`
+ * @returns Sources for `script-src`, `frame-src` and `connect-src`
+ *
+ * @example
+ * const csp = getTurnstileCspDirectives({ nonce });
+ * // { 'script-src': ['https://challenges.cloudflare.com', "'nonce-...'"], 'frame-src': [...], ... }
+ */
+export function getTurnstileCspDirectives(options: TurnstileCspOptions = {}): TurnstileCspDirectives {
+  const scriptSrc = [TURNSTILE_ORIGIN];
+  if (options.nonce) {
+    scriptSrc.push(`'nonce-${options.nonce}'`);
+  }
+
+  return {
+    'script-src': scriptSrc,
+    'frame-src': [TURNSTILE_ORIGIN],
+    'connect-src': [TURNSTILE_ORIGIN],
+  };
+}
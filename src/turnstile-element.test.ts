@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { defineTurnstileElement, TurnstileWidgetElement } from './turnstile-element';
+import { TURNSTILE_TEST_SITE_KEY } from './turnstile-client';
+
+describe('<turnstile-widget>', () => {
+  let mockTurnstile: any;
+  let originalTurnstile: any;
+  let renderParams: any;
+  let form: HTMLFormElement;
+
+  const createElement = (attributes: Record<string, string> = {}) => {
+    const element = document.createElement('turnstile-widget') as TurnstileWidgetElement;
+    Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+    form.appendChild(element);
+    return element;
+  };
+
+  beforeAll(() => {
+    defineTurnstileElement();
+  });
+
+  beforeEach(() => {
+    mockTurnstile = {
+      render: vi.fn((_container, params) => {
+        renderParams = params;
+        return 'widget-123';
+      }),
+      reset: vi.fn(),
+      remove: vi.fn(),
+      getResponse: vi.fn(() => ''),
+      isExpired: vi.fn(() => false),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+
+    form = document.createElement('form');
+    document.body.appendChild(form);
+  });
+
+  afterEach(() => {
+    form.remove();
+    (window as any).turnstile = originalTurnstile;
+  });
+
+  it('should be registered once', () => {
+    defineTurnstileElement();
+    expect(customElements.get('turnstile-widget')).toBeDefined();
+  });
+
+  it('should render the widget with its attributes when connected', async () => {
+    createElement({ 'site-key': 'site-key', theme: 'dark', size: 'compact', action: 'contact' });
+
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalled());
+    expect(renderParams).toMatchObject({
+      sitekey: 'site-key',
+      theme: 'dark',
+      size: 'compact',
+      action: 'contact',
+      'response-field': false,
+    });
+  });
+
+  it('should fall back to the test site key like the Astro component', async () => {
+    createElement();
+
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalled());
+    expect(renderParams.sitekey).toBe(TURNSTILE_TEST_SITE_KEY);
+  });
+
+  it('should report a configuration error instead of a blocked script for a missing key in production', async () => {
+    vi.stubEnv('PROD', true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onError = vi.fn();
+    form.addEventListener('turnstile-error', onError);
+
+    try {
+      createElement();
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].detail).toMatchObject({
+      code: 'invalid-site-key',
+      error: { category: 'configuration', retryable: false },
+    });
+    await Promise.resolve();
+    expect(mockTurnstile.render).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  it('should submit the token with the form and dispatch turnstile-token', async () => {
+    const element = createElement({ 'site-key': 'site-key' });
+    const onToken = vi.fn();
+    form.addEventListener('turnstile-token', onToken);
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalled());
+
+    renderParams.callback('token-abc');
+
+    expect(new FormData(form).get('cf-turnstile-response')).toBe('token-abc');
+    expect(onToken.mock.calls[0][0].detail).toEqual({ token: 'token-abc' });
+    expect(element.turnstile?.widgetId).toBe('widget-123');
+  });
+
+  it('should submit under a custom name', async () => {
+    createElement({ 'site-key': 'site-key', name: 'captcha' });
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalled());
+
+    renderParams.callback('token-abc');
+
+    expect(new FormData(form).get('captcha')).toBe('token-abc');
+  });
+
+  it('should clear the value and dispatch events on expiry and error', async () => {
+    createElement({ 'site-key': 'site-key' });
+    const onExpired = vi.fn();
+    const onError = vi.fn();
+    form.addEventListener('turnstile-expired', onExpired);
+    form.addEventListener('turnstile-error', onError);
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalled());
+
+    renderParams.callback('token-abc');
+    renderParams['expired-callback']();
+    expect(new FormData(form).get('cf-turnstile-response')).toBe('');
+    expect(onExpired).toHaveBeenCalled();
+
+    renderParams['error-callback']('110200');
+    expect(onError.mock.calls[0][0].detail).toEqual({
+      code: '110200',
+      error: expect.objectContaining({ code: '110200', category: 'configuration', retryable: false }),
+    });
+  });
+
+  it('should remove the widget and stop refreshing when disconnected', async () => {
+    vi.useFakeTimers();
+    try {
+      const element = createElement({ 'site-key': 'site-key', 'refresh-interval': '1000' });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockTurnstile.render).toHaveBeenCalled();
+
+      element.remove();
+      vi.advanceTimersByTime(5000);
+
+      expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-123');
+      expect(mockTurnstile.reset).not.toHaveBeenCalled();
+      expect(element.childElementCount).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not render if disconnected before the script loads', async () => {
+    const element = createElement({ 'site-key': 'site-key' });
+    element.remove();
+
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(mockTurnstile.render).not.toHaveBeenCalled();
+  });
+
+  it('should use ElementInternals when form-associated elements are supported', async () => {
+    const setFormValue = vi.fn();
+    const setValidity = vi.fn();
+    const attachInternals = vi
+      .spyOn(HTMLElement.prototype as any, 'attachInternals')
+      .mockReturnValue({ setFormValue, setValidity });
+
+    try {
+      createElement({ 'site-key': 'site-key', required: '' });
+      expect(setValidity).toHaveBeenCalledWith({ valueMissing: true }, expect.any(String));
+      await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalled());
+
+      renderParams.callback('token-abc');
+
+      expect(setFormValue).toHaveBeenLastCalledWith('token-abc');
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    } finally {
+      attachInternals.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,242 @@
+import type { RefreshStrategy, TurnstileRenderParams, TurnstileSize, TurnstileTheme } from './types';
+import { getSiteKey, setupAutoRefresh, TurnstileConfigError } from './turnstile-client';
+import { TurnstileController } from './turnstile-controller';
+import { loadTurnstile } from './turnstile-loader';
+import { getTurnstileLogger } from './turnstile-telemetry';
+import { turnstileRegistry } from './turnstile-registry';
+import { getTurnstileError } from './turnstile-errors';
+
+/**
+ * Default tag name registered by defineTurnstileElement()
+ */
+export const TURNSTILE_ELEMENT_TAG = 'turnstile-widget';
+
+/**
+ * Field name the token is submitted under when the element has no `name` attribute
+ */
+const DEFAULT_FIELD_NAME = 'cf-turnstile-response';
+
+// Lets this module be imported during SSR, where HTMLElement does not exist
+const BaseElement = (typeof HTMLElement !== 'undefined' ? HTMLElement : class {}) as typeof HTMLElement;
+
+/**
+ * `<turnstile-widget>` custom element for frameworks other than Astro, plain HTML pages
+ * and CMS-embedded forms.
+ *
+ * Attributes: `site-key`, `theme`, `size`, `action`, `refresh-interval`, `refresh-strategy`,
+ * `execution`, `appearance`, `language`, `name`, `required` and `nonce` (set on the injected
+ * Turnstile script, for pages with a strict CSP).
+ *
+ * The token takes part in the surrounding form like a native field (through ElementInternals,
+ * or a hidden input where form-associated custom elements are not supported).
+ * Dispatches `turnstile-token` (`detail.token`), `turnstile-expired` and
+ * `turnstile-error` (`detail.code`, and its catalog entry in `detail.error`) events, which bubble.
+ *
+ * @example
+ * <turnstile-widget site-key="0x4AAAAAAA..." action="contact" refresh-strategy="expiry"></turnstile-widget>
+ */
+export class TurnstileWidgetElement extends BaseElement {
+  static formAssociated = true;
+
+  private internals: ElementInternals | null = null;
+  private fallbackInput: HTMLInputElement | null = null;
+  private container: HTMLElement | null = null;
+  private controller: TurnstileController | null = null;
+  private stopRefresh: (() => void) | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private unregister: (() => void) | null = null;
+  private connectionId = 0;
+
+  constructor() {
+    super();
+    if (typeof this.attachInternals === 'function') {
+      try {
+        this.internals = this.attachInternals();
+      } catch {
+        this.internals = null;
+      }
+    }
+  }
+
+  /**
+   * The controller of the rendered widget, or null while disconnected
+   */
+  get turnstile(): TurnstileController | null {
+    return this.controller;
+  }
+
+  /**
+   * The current token, or an empty string
+   */
+  get value(): string {
+    return this.controller?.getResponse() ?? '';
+  }
+
+  /**
+   * The form this element submits with
+   */
+  get form(): HTMLFormElement | null {
+    return this.internals && 'form' in this.internals ? this.internals.form : this.closest('form');
+  }
+
+  connectedCallback(): void {
+    const connectionId = ++this.connectionId;
+    // ElementInternals submits the value under the element's name
+    if (!this.hasAttribute('name')) {
+      this.setAttribute('name', DEFAULT_FIELD_NAME);
+    }
+    this.updateValue('');
+
+    // Resolved before loading the script, so a configuration error is not reported as a blocked script
+    let sitekey: string;
+    try {
+      sitekey = getSiteKey(this.getAttribute('site-key') ?? undefined);
+    } catch (error) {
+      if (!(error instanceof TurnstileConfigError)) throw error;
+      getTurnstileLogger().error(error.message);
+      this.dispatch('turnstile-error', {
+        code: 'invalid-site-key',
+        error: getTurnstileError('invalid-site-key', this.getAttribute('language')),
+      });
+      return;
+    }
+
+    loadTurnstile({ nonce: this.nonce || this.getAttribute('nonce') || undefined })
+      .then(() => {
+        // Disconnected (or moved) while the script was loading
+        if (connectionId !== this.connectionId || !this.isConnected) return;
+        this.renderWidget(sitekey);
+      })
+      .catch((error) => {
+        getTurnstileLogger().error('Turnstile failed to load:', error);
+        this.dispatch('turnstile-error', {
+          code: 'script-load-failed',
+          error: getTurnstileError('script-load-failed', this.getAttribute('language')),
+        });
+      });
+  }
+
+  disconnectedCallback(): void {
+    this.teardown();
+  }
+
+  /**
+   * Resets the widget and clears the submitted value
+   */
+  reset(): void {
+    this.updateValue('');
+    this.controller?.reset();
+  }
+
+  /**
+   * Called by the browser when the owning form is reset
+   */
+  formResetCallback(): void {
+    this.reset();
+  }
+
+  private teardown(): void {
+    this.connectionId++;
+    this.unregister?.();
+    this.unregister = null;
+    this.stopRefresh?.();
+    this.stopRefresh = null;
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.controller?.remove();
+    this.controller = null;
+    this.container?.remove();
+    this.container = null;
+    this.fallbackInput?.remove();
+    this.fallbackInput = null;
+  }
+
+  private renderWidget(sitekey: string): void {
+    const container = document.createElement('div');
+    this.appendChild(container);
+    this.container = container;
+
+    const execution = this.getAttribute('execution');
+    const appearance = this.getAttribute('appearance');
+    const params: TurnstileRenderParams = {
+      sitekey,
+      theme: (this.getAttribute('theme') as TurnstileTheme | null) ?? undefined,
+      size: (this.getAttribute('size') as TurnstileSize | null) ?? undefined,
+      action: this.getAttribute('action') ?? undefined,
+      language: this.getAttribute('language') ?? undefined,
+      execution: execution === 'execute' || execution === 'render' ? execution : undefined,
+      appearance:
+        appearance === 'always' || appearance === 'execute' || appearance === 'interaction-only'
+          ? appearance
+          : undefined,
+      // The element submits the token itself
+      'response-field': false,
+    };
+    (Object.keys(params) as Array<keyof TurnstileRenderParams>).forEach((key) => {
+      if (params[key] === undefined) delete params[key];
+    });
+
+    const controller = new TurnstileController(container, params);
+    this.controller = controller;
+    this.unsubscribers = [
+      controller.on('token', (token) => {
+        this.updateValue(token);
+        this.dispatch('turnstile-token', { token });
+      }),
+      controller.on('expired', () => {
+        this.updateValue('');
+        this.dispatch('turnstile-expired', {});
+      }),
+      controller.on('error', (code) => {
+        this.updateValue('');
+        this.dispatch('turnstile-error', { code, error: getTurnstileError(code, this.getAttribute('language')) });
+      }),
+    ];
+    controller.render();
+    this.unregister = turnstileRegistry.register(this, controller, {
+      responseFieldName: this.getAttribute('name')!,
+      remove: () => this.teardown(),
+    });
+
+    const refreshInterval = Number(this.getAttribute('refresh-interval'));
+    this.stopRefresh = setupAutoRefresh(controller, {
+      strategy: (this.getAttribute('refresh-strategy') as RefreshStrategy | null) ?? undefined,
+      refreshInterval: Number.isFinite(refreshInterval) && refreshInterval > 0 ? refreshInterval : undefined,
+    });
+  }
+
+  private updateValue(token: string): void {
+    const internals = this.internals;
+    if (internals && typeof internals.setFormValue === 'function') {
+      internals.setFormValue(token || null);
+      if (this.hasAttribute('required') && !token) {
+        internals.setValidity({ valueMissing: true }, 'Please complete the security check.');
+      } else {
+        internals.setValidity({});
+      }
+      return;
+    }
+
+    if (!this.fallbackInput) {
+      this.fallbackInput = document.createElement('input');
+      this.fallbackInput.type = 'hidden';
+      this.appendChild(this.fallbackInput);
+    }
+    this.fallbackInput.name = this.getAttribute('name')!;
+    this.fallbackInput.value = token;
+  }
+
+  private dispatch(type: string, detail: Record<string, unknown>): void {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+}
+
+/**
+ * Registers the `<turnstile-widget>` custom element. Safe to call more than once.
+ * @param tagName - Tag name to register (default: 'turnstile-widget')
+ */
+export function defineTurnstileElement(tagName: string = TURNSTILE_ELEMENT_TAG): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  // A constructor can only be registered once, so each tag name gets its own subclass
+  customElements.define(tagName, class extends TurnstileWidgetElement {});
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getTurnstileError, TurnstileError } from './turnstile-errors';
+import { getSiteverifyError, SITEVERIFY_ERRORS } from '../netlify/error-codes.js';
+
+describe('turnstile-errors', () => {
+  describe('getTurnstileError', () => {
+    it('should describe client codes that have an entry of their own', () => {
+      expect(getTurnstileError('110200')).toMatchObject({
+        code: '110200',
+        category: 'configuration',
+        retryable: false,
+        developerMessage: expect.stringContaining('Unknown domain'),
+      });
+      expect(getTurnstileError('110600')).toMatchObject({ category: 'timeout', retryable: true });
+      expect(getTurnstileError('110500')).toMatchObject({ category: 'browser', retryable: false });
+      expect(getTurnstileError('200100').userMessage).toMatch(/clock/);
+    });
+
+    it('should fall back to the code family', () => {
+      expect(getTurnstileError('300030')).toMatchObject({ code: '300030', category: 'challenge', retryable: true });
+      expect(getTurnstileError('600010')).toMatchObject({ category: 'challenge', retryable: true });
+      expect(getTurnstileError('110999')).toMatchObject({ category: 'configuration', retryable: false });
+      expect(getTurnstileError('102004')).toMatchObject({ category: 'challenge' });
+      expect(getTurnstileError('100001')).toMatchObject({ category: 'internal', retryable: false });
+    });
+
+    it('should accept numeric codes', () => {
+      expect(getTurnstileError(600010)).toMatchObject({ code: '600010', category: 'challenge' });
+    });
+
+    it('should describe siteverify codes', () => {
+      expect(getTurnstileError('invalid-input-secret')).toMatchObject({ category: 'configuration', retryable: false });
+      expect(getTurnstileError('timeout-or-duplicate')).toMatchObject({ category: 'token', retryable: true });
+      expect(getTurnstileError('internal-error')).toMatchObject({ category: 'internal', retryable: true });
+    });
+
+    it('should describe the script failing to load', () => {
+      expect(getTurnstileError('script-load-failed')).toMatchObject({ category: 'network', retryable: true });
+      expect(getTurnstileError('invalid-site-key')).toMatchObject({ category: 'configuration', retryable: false });
+    });
+
+    it('should return an unknown entry for codes not in the catalog', () => {
+      expect(getTurnstileError('999999')).toMatchObject({ code: '999999', category: 'unknown', retryable: true });
+      expect(getTurnstileError('something-new').developerMessage).toContain('something-new');
+    });
+
+    it('should match the server catalog for every siteverify code', () => {
+      for (const code of Object.keys(SITEVERIFY_ERRORS)) {
+        expect(getTurnstileError(code)).toEqual(getSiteverifyError(code));
+      }
+      expect(getTurnstileError('something-new')).toEqual(getSiteverifyError('something-new'));
+    });
+  });
+
+  describe('TurnstileError', () => {
+    it('should carry the catalog entry', () => {
+      const error = new TurnstileError(getTurnstileError('110100'));
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TurnstileError');
+      expect(error.message).toContain('110100');
+      expect(error).toMatchObject({ code: '110100', category: 'configuration', retryable: false });
+      expect(error.userMessage).toBe(getTurnstileError('110100').userMessage);
+    });
+  });
+});
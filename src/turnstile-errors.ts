@@ -0,0 +1,200 @@
+import type {
+  SiteverifyErrorCode,
+  TurnstileClientMessages,
+  TurnstileErrorCategory,
+  TurnstileErrorInfo,
+} from './types';
+import { getTurnstileMessages } from './turnstile-messages';
+
+/**
+ * Catalog entry; `message` names the user message in the locale's TurnstileClientMessages
+ */
+interface CatalogEntry extends Omit<TurnstileErrorInfo, 'code' | 'userMessage'> {
+  message: keyof TurnstileClientMessages;
+}
+
+/**
+ * Client error codes passed to `error-callback` that have a meaning of their own
+ * (see https://developers.cloudflare.com/turnstile/troubleshooting/client-side-errors/error-codes/)
+ */
+const CLIENT_ERRORS: Record<string, CatalogEntry> = {
+  '110100': configuration('Invalid site key: the widget was rendered with a key Turnstile does not know.'),
+  '110110': configuration('Invalid site key: the widget was rendered with a key Turnstile does not know.'),
+  '110200': configuration('Unknown domain: add this hostname to the site key in the Cloudflare dashboard.'),
+  '110420': configuration('Invalid action: use at most 32 characters of a-z, A-Z, 0-9, - and _.'),
+  '110430': configuration('Invalid cData: use at most 255 characters of a-z, A-Z, 0-9, - and _.'),
+  '110500': {
+    category: 'browser',
+    retryable: false,
+    developerMessage: 'Unsupported browser: the visitor needs a newer browser to run the challenge.',
+    message: 'unsupportedBrowser',
+  },
+  '110510': {
+    category: 'browser',
+    retryable: false,
+    developerMessage: 'Inconsistent user agent: the browser reported conflicting identities, often because of an extension.',
+    message: 'inconsistentBrowser',
+  },
+  '110600': timeout('Challenge timed out: the visitor took too long or their device is too slow.'),
+  '110620': timeout('Interactive challenge timed out: the visitor did not complete the check in time.'),
+  '200010': {
+    category: 'browser',
+    retryable: false,
+    developerMessage: 'Invalid caching: a cached copy of the challenge was served. Clear the browser cache.',
+    message: 'reload',
+  },
+  '200100': {
+    category: 'browser',
+    retryable: false,
+    developerMessage: "Time problem: the visitor's clock is wrong.",
+    message: 'clock',
+  },
+  'script-load-failed': {
+    category: 'network',
+    retryable: true,
+    developerMessage: 'The Turnstile script could not be loaded (network error, ad blocker or Content-Security-Policy).',
+    message: 'scriptBlocked',
+  },
+  'invalid-site-key': configuration(
+    'The site key is missing, malformed or a test key in production (TurnstileConfigError); the widget was not rendered.'
+  ),
+};
+
+/**
+ * Client error code families, keyed by the first three digits
+ */
+const CLIENT_ERROR_FAMILIES: Record<string, CatalogEntry> = {
+  '100': {
+    category: 'internal',
+    retryable: false,
+    developerMessage: 'Initialization problem: reload the page; repeated failures suggest an automated client.',
+    message: 'reload',
+  },
+  '102': challenge('Invalid parameters sent by the visitor; repeated failures suggest an automated client.'),
+  '103': challenge('Invalid parameters sent by the visitor; repeated failures suggest an automated client.'),
+  '104': challenge('Invalid parameters sent by the visitor; repeated failures suggest an automated client.'),
+  '105': configuration('API compatibility: Turnstile was called in a deprecated or invalid way. Load api.js from Cloudflare.'),
+  '106': challenge('Invalid parameters sent by the visitor; repeated failures suggest an automated client.'),
+  '110': configuration('Widget configuration error: check the site key, domain and render parameters.'),
+  '120': {
+    category: 'internal',
+    retryable: false,
+    developerMessage: 'Internal Cloudflare error.',
+    message: 'unavailable',
+  },
+  '300': challenge('Generic client execution error: the challenge failed in the browser; retry, repeated failures suggest a bot.'),
+  '400': configuration('Invalid render parameter: check the widget options passed to turnstile.render().'),
+  '600': challenge('Challenge execution failure: the visitor failed the challenge (also returned by the always-blocking test key).'),
+};
+
+/**
+ * Error codes returned by siteverify
+ * (see https://developers.cloudflare.com/turnstile/get-started/server-side-validation/)
+ */
+const SITEVERIFY_ERRORS: Record<SiteverifyErrorCode, CatalogEntry> = {
+  'missing-input-secret': {
+    category: 'configuration',
+    retryable: false,
+    developerMessage: 'The secret key was not sent to siteverify. Set TURNSTILE_SECRET_KEY.',
+    message: 'unavailable',
+  },
+  'invalid-input-secret': {
+    category: 'configuration',
+    retryable: false,
+    developerMessage: 'The secret key is invalid or does not exist. Check TURNSTILE_SECRET_KEY.',
+    message: 'unavailable',
+  },
+  'missing-input-response': {
+    category: 'token',
+    retryable: true,
+    developerMessage: 'No token was sent: the form was submitted before the challenge completed, or the token field is missing.',
+    message: 'completeChallenge',
+  },
+  'invalid-input-response': {
+    category: 'challenge',
+    retryable: true,
+    developerMessage: 'The token is invalid or malformed; it may be forged or come from another site key.',
+    message: 'failed',
+  },
+  'bad-request': {
+    category: 'configuration',
+    retryable: false,
+    developerMessage: 'siteverify rejected the request as malformed. Send the parameters as form data or JSON.',
+    message: 'unavailable',
+  },
+  'timeout-or-duplicate': {
+    category: 'token',
+    retryable: true,
+    developerMessage: 'The token has expired (after 5 minutes) or was already verified once.',
+    message: 'tokenExpired',
+  },
+  'internal-error': {
+    category: 'internal',
+    retryable: true,
+    developerMessage: 'siteverify failed internally; retry the request.',
+    message: 'temporarilyUnavailable',
+  },
+};
+
+/**
+ * Looks up a Turnstile client error code (from `error-callback`) or a siteverify error code.
+ * Client codes without an entry of their own fall back to their family (first three digits).
+ *
+ * @param code - Error code, e.g. '110200', 600010 or 'timeout-or-duplicate'
+ * @param locale - Locale of the user message (default: detectTurnstileLocale())
+ * @returns Category, retryable flag, developer message and end-user message
+ *
+ * @example
+ * const { category, userMessage } = getTurnstileError('110200');
+ * // category: 'configuration'
+ */
+export function getTurnstileError(code: string | number, locale?: string | null): TurnstileErrorInfo {
+  const key = String(code).trim();
+  const entry =
+    CLIENT_ERRORS[key] ??
+    (SITEVERIFY_ERRORS as Record<string, CatalogEntry>)[key] ??
+    (/^\d{6}$/.test(key) ? CLIENT_ERROR_FAMILIES[key.slice(0, 3)] : undefined);
+
+  const { message, ...info }: CatalogEntry = entry ?? {
+    category: 'unknown',
+    retryable: true,
+    developerMessage: `Unknown Turnstile error code: ${key}.`,
+    message: 'failed',
+  };
+
+  return { code: key, ...info, userMessage: getTurnstileMessages(locale)[message] };
+}
+
+/**
+ * Error carrying a catalog entry, thrown for a failed Turnstile challenge
+ * (for example by TurnstileController.waitForToken)
+ */
+export class TurnstileError extends Error implements TurnstileErrorInfo {
+  readonly code: string;
+  readonly category: TurnstileErrorCategory;
+  readonly retryable: boolean;
+  readonly developerMessage: string;
+  readonly userMessage: string;
+
+  constructor(info: TurnstileErrorInfo) {
+    super(`Turnstile challenge failed: ${info.code} (${info.developerMessage})`);
+    this.name = 'TurnstileError';
+    this.code = info.code;
+    this.category = info.category;
+    this.retryable = info.retryable;
+    this.developerMessage = info.developerMessage;
+    this.userMessage = info.userMessage;
+  }
+}
+
+function configuration(developerMessage: string): CatalogEntry {
+  return { category: 'configuration', retryable: false, developerMessage, message: 'unavailable' };
+}
+
+function challenge(developerMessage: string): CatalogEntry {
+  return { category: 'challenge', retryable: true, developerMessage, message: 'failed' };
+}
+
+function timeout(developerMessage: string): CatalogEntry {
+  return { category: 'timeout', retryable: true, developerMessage, message: 'timedOut' };
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isTurnstileFailureResponse, turnstileFetch } from './turnstile-fetch';
+import { TurnstileController } from './turnstile-controller';
+
+describe('turnstileFetch', () => {
+  let container: HTMLElement;
+  let controller: TurnstileController;
+  let mockTurnstile: any;
+  let originalTurnstile: any;
+  let renderParams: any;
+  let tokens: string[];
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+
+    // Each reset issues the next token
+    tokens = ['token-1', 'token-2', 'token-3'];
+    let response = tokens.shift()!;
+    mockTurnstile = {
+      render: vi.fn((_container, params) => {
+        renderParams = params;
+        return 'widget-123';
+      }),
+      reset: vi.fn(() => {
+        response = '';
+        const next = tokens.shift()!;
+        queueMicrotask(() => {
+          response = next;
+          renderParams.callback(next);
+        });
+      }),
+      remove: vi.fn(),
+      getResponse: vi.fn(() => response),
+      isExpired: vi.fn(() => false),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+
+    controller = new TurnstileController(container, { sitekey: 'site-key' });
+    controller.render();
+  });
+
+  afterEach(() => {
+    container.remove();
+    (window as any).turnstile = originalTurnstile;
+  });
+
+  it('should send the token header and reset the widget afterwards', async () => {
+    const fetchImpl = vi.fn(async () => new Response('ok'));
+
+    const response = await turnstileFetch(
+      '/api/contact',
+      { method: 'POST', headers: { 'Content-Type': 'application/json' } },
+      { widget: controller, fetch: fetchImpl }
+    );
+
+    expect(response.status).toBe(200);
+    const [, init] = fetchImpl.mock.calls[0] as any;
+    expect(init.method).toBe('POST');
+    expect(init.headers.get('X-Turnstile-Token')).toBe('token-1');
+    expect(init.headers.get('Content-Type')).toBe('application/json');
+    expect(mockTurnstile.reset).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the headers of a Request input', async () => {
+    const fetchImpl = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      // What fetch actually sends: init.headers replace the Request's headers
+      const sent: Record<string, string> = {};
+      new Request(input, init).headers.forEach((value, name) => {
+        sent[name] = value;
+      });
+      return new Response(JSON.stringify(sent));
+    });
+    const request = new Request('https://example.com/api/contact', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer abc' },
+      body: '{}',
+    });
+
+    const response = await turnstileFetch(request, {}, { widget: controller, fetch: fetchImpl });
+
+    expect(await response.json()).toEqual({
+      'content-type': 'application/json',
+      authorization: 'Bearer abc',
+      'x-turnstile-token': 'token-1',
+    });
+  });
+
+  it('should retry once with a new token after a Turnstile failure', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 403, headers: { 'X-Turnstile-Error': 'token-already-used' } }))
+      .mockResolvedValueOnce(new Response('ok'));
+
+    const response = await turnstileFetch('/api/contact', {}, { widget: controller, fetch: fetchImpl });
+
+    expect(response.status).toBe(200);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    const sentTokens = fetchImpl.mock.calls.map(([, init]: any) => init.headers.get('X-Turnstile-Token'));
+    expect(sentTokens).toEqual(['token-1', 'token-2']);
+  });
+
+  it('should not retry more than once', async () => {
+    const failure = () => new Response('', { status: 403, headers: { 'X-Turnstile-Error': 'siteverify-rejected' } });
+    const fetchImpl = vi.fn(async () => failure());
+
+    const response = await turnstileFetch('/api/contact', {}, { widget: controller, fetch: fetchImpl });
+
+    expect(response.status).toBe(403);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry other errors', async () => {
+    const fetchImpl = vi.fn(async () => new Response('', { status: 500 }));
+
+    await turnstileFetch('/api/contact', {}, { widget: controller, fetch: fetchImpl });
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reset the widget when the request throws', async () => {
+    const fetchImpl = vi.fn().mockRejectedValue(new Error('Network error'));
+
+    await expect(
+      turnstileFetch('/api/contact', {}, { widget: controller, fetch: fetchImpl })
+    ).rejects.toThrow('Network error');
+    expect(mockTurnstile.reset).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject for a container that has not been rendered', async () => {
+    const element = document.createElement('div');
+
+    await expect(turnstileFetch('/api/contact', {}, { widget: element })).rejects.toThrow('has not been rendered');
+  });
+});
+
+describe('isTurnstileFailureResponse', () => {
+  it('should recognise the X-Turnstile-Error header', async () => {
+    const response = new Response('', { status: 403, headers: { 'X-Turnstile-Error': 'missing-token' } });
+    expect(await isTurnstileFailureResponse(response)).toBe(true);
+  });
+
+  it('should recognise a failed verification JSON body without consuming it', async () => {
+    const response = new Response(JSON.stringify({ success: false, reason: 'token-too-old' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    expect(await isTurnstileFailureResponse(response)).toBe(true);
+    expect(await response.json()).toEqual({ success: false, reason: 'token-too-old' });
+  });
+
+  it('should ignore unrelated errors', async () => {
+    const validation = new Response(JSON.stringify({ success: false, error: 'Email is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    expect(await isTurnstileFailureResponse(validation)).toBe(false);
+    expect(await isTurnstileFailureResponse(new Response('', { status: 500 }))).toBe(false);
+    expect(await isTurnstileFailureResponse(new Response('ok'))).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import type { TurnstileFetchOptions } from './types';
+import { TurnstileController } from './turnstile-controller';
+import { turnstileRegistry } from './turnstile-registry';
+
+/**
+ * Request header carrying the Turnstile token, read first by the server helpers
+ */
+export const TURNSTILE_TOKEN_HEADER = 'X-Turnstile-Token';
+
+/**
+ * Response header a server sets when it rejected a request because of Turnstile
+ */
+export const TURNSTILE_ERROR_HEADER = 'X-Turnstile-Error';
+
+/**
+ * Default time to wait for the challenge to produce a token (30 seconds)
+ */
+const DEFAULT_TOKEN_TIMEOUT = 30000;
+
+/**
+ * `fetch` wrapper that sends a fresh Turnstile token in the `X-Turnstile-Token` header.
+ *
+ * The widget is reset after every request because tokens are single-use. If the server
+ * answers with a Turnstile failure (see `isTurnstileFailure`), a new token is obtained
+ * and the request is retried once.
+ *
+ * @param input - Request URL or Request
+ * @param init - Request options
+ * @param options - Which widget supplies the token, and retry behaviour
+ * @returns The response
+ */
+export async function turnstileFetch(
+  input: RequestInfo | URL,
+  init: RequestInit = {},
+  options: TurnstileFetchOptions
+): Promise<Response> {
+  const {
+    timeout = DEFAULT_TOKEN_TIMEOUT,
+    fetch: fetchImpl = fetch,
+    isTurnstileFailure = isTurnstileFailureResponse,
+  } = options;
+
+  const controller = resolveController(options.widget);
+  // A Request body can only be read once, so keep a copy for the retry
+  const retryInput = input instanceof Request ? input.clone() : input;
+
+  const send = async (requestInput: RequestInfo | URL) => {
+    const token = await controller.requestToken(timeout);
+    // `init.headers` would replace a Request's own headers, so start from those when it is absent
+    const headers = new Headers(init.headers ?? (requestInput instanceof Request ? requestInput.headers : undefined));
+    headers.set(TURNSTILE_TOKEN_HEADER, token);
+
+    try {
+      return await fetchImpl(requestInput, { ...init, headers });
+    } finally {
+      controller.reset();
+    }
+  };
+
+  const response = await send(input);
+  if (!(await isTurnstileFailure(response))) {
+    return response;
+  }
+
+  return send(retryInput);
+}
+
+/**
+ * Default check for a response rejected because of Turnstile: a 400/401/403 carrying the
+ * `X-Turnstile-Error` header, or a JSON body of the form `{ success: false, reason }`
+ * as returned from a failed `verifyTurnstile`.
+ *
+ * @param response - Response to inspect (its body is not consumed)
+ * @returns Whether the request should be retried with a new token
+ */
+export async function isTurnstileFailureResponse(response: Response): Promise<boolean> {
+  if (![400, 401, 403].includes(response.status)) {
+    return false;
+  }
+  if (response.headers.has(TURNSTILE_ERROR_HEADER)) {
+    return true;
+  }
+  if (!response.headers.get('content-type')?.includes('application/json')) {
+    return false;
+  }
+
+  try {
+    const body = await response.clone().json();
+    return body?.success === false && typeof body.reason === 'string';
+  } catch {
+    return false;
+  }
+}
+
+function resolveController(widget: TurnstileController | HTMLElement): TurnstileController {
+  if (widget instanceof TurnstileController) {
+    return widget;
+  }
+
+  const controller = turnstileRegistry.get(widget)?.controller;
+  if (!controller) {
+    throw new Error('Turnstile widget has not been rendered');
+  }
+  return controller;
+}
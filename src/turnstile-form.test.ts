@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { attachTurnstileToForm } from './turnstile-form';
+import { TurnstileController } from './turnstile-controller';
+import { destroyTurnstileWidgets, initTurnstileWidgets } from './turnstile-widgets';
+
+describe('attachTurnstileToForm', () => {
+  let form: HTMLFormElement;
+  let button: HTMLButtonElement;
+  let container: HTMLElement;
+  let mockTurnstile: any;
+  let originalTurnstile: any;
+  let renderParams: any;
+  let response: string;
+
+  const submit = () => {
+    const event = new Event('submit', { cancelable: true }) as SubmitEvent;
+    form.dispatchEvent(event);
+    return event;
+  };
+
+  const createController = (params: Record<string, unknown> = {}) => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key', ...params });
+    controller.render();
+    return controller;
+  };
+
+  beforeEach(() => {
+    form = document.createElement('form');
+    button = document.createElement('button');
+    button.type = 'submit';
+    container = document.createElement('div');
+    container.className = 'cf-turnstile';
+    container.setAttribute('data-sitekey', 'site-key');
+    form.append(container, button);
+    document.body.appendChild(form);
+
+    response = '';
+    mockTurnstile = {
+      render: vi.fn((_container, params) => {
+        renderParams = params;
+        return 'widget-123';
+      }),
+      reset: vi.fn(),
+      remove: vi.fn(),
+      execute: vi.fn(),
+      getResponse: vi.fn(() => response),
+      isExpired: vi.fn(() => false),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+    form.requestSubmit = vi.fn();
+  });
+
+  afterEach(() => {
+    destroyTurnstileWidgets();
+    form.remove();
+    (window as any).turnstile = originalTurnstile;
+  });
+
+  it('should let a native submit through when a token is present', () => {
+    const controller = createController();
+    response = 'token-abc';
+    attachTurnstileToForm(form, { controller });
+
+    expect(submit().defaultPrevented).toBe(false);
+  });
+
+  it('should hold a native submit until the token arrives, then resubmit', async () => {
+    const controller = createController();
+    attachTurnstileToForm(form, { controller });
+
+    const event = submit();
+    expect(event.defaultPrevented).toBe(true);
+    expect(button.disabled).toBe(true);
+    expect(form.hasAttribute('data-turnstile-submitting')).toBe(true);
+
+    response = 'token-abc';
+    renderParams.callback('token-abc');
+
+    await vi.waitFor(() => expect(form.requestSubmit).toHaveBeenCalled());
+    expect(button.disabled).toBe(false);
+    expect(form.hasAttribute('data-turnstile-submitting')).toBe(false);
+  });
+
+  it('should execute widgets rendered with execution: execute', async () => {
+    const controller = createController({ execution: 'execute' });
+    mockTurnstile.execute.mockImplementation(() => renderParams.callback('token-abc'));
+    attachTurnstileToForm(form, { controller });
+
+    submit();
+
+    expect(mockTurnstile.execute).toHaveBeenCalled();
+    await vi.waitFor(() => expect(form.requestSubmit).toHaveBeenCalled());
+  });
+
+  it('should pass the token to a fetch-based submit handler', async () => {
+    const controller = createController();
+    response = 'token-abc';
+    const onSubmit = vi.fn(async () => ({ ok: true }));
+    attachTurnstileToForm(form, { controller, onSubmit });
+
+    const event = submit();
+
+    expect(event.defaultPrevented).toBe(true);
+    await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith('token-abc', event));
+    await vi.waitFor(() => expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-123'));
+    expect(form.requestSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should need a fresh token for each of two submits in a row', async () => {
+    const controller = createController();
+    response = 'token-abc';
+    mockTurnstile.reset.mockImplementation(() => {
+      response = '';
+    });
+    const onSubmit = vi.fn(async () => ({ ok: true }));
+    attachTurnstileToForm(form, { controller, onSubmit });
+
+    submit();
+    await vi.waitFor(() => expect(mockTurnstile.reset).toHaveBeenCalledTimes(1));
+
+    submit();
+    renderParams.callback('token-def');
+
+    await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(2));
+    expect(onSubmit).toHaveBeenNthCalledWith(1, 'token-abc', expect.anything());
+    expect(onSubmit).toHaveBeenNthCalledWith(2, 'token-def', expect.anything());
+    await vi.waitFor(() => expect(mockTurnstile.reset).toHaveBeenCalledTimes(2));
+  });
+
+  it('should reset the widget after a server-side rejection', async () => {
+    const controller = createController();
+    response = 'token-abc';
+    const onSubmit = vi.fn(async () => ({ ok: false }));
+    attachTurnstileToForm(form, { controller, onSubmit });
+
+    submit();
+
+    await vi.waitFor(() => expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-123'));
+  });
+
+  it('should ignore further submits while one is in flight', async () => {
+    const controller = createController();
+    const onSubmit = vi.fn();
+    attachTurnstileToForm(form, { controller, onSubmit });
+
+    submit();
+    expect(submit().defaultPrevented).toBe(true);
+    renderParams.callback('token-abc');
+
+    await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+  });
+
+  it('should report an error and re-enable the form when the challenge fails', async () => {
+    const controller = createController();
+    const onError = vi.fn();
+    attachTurnstileToForm(form, { controller, onError });
+
+    submit();
+    renderParams['error-callback']('300010');
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.any(Error)));
+    expect(button.disabled).toBe(false);
+    expect(form.requestSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should find the widget rendered inside the form', async () => {
+    await initTurnstileWidgets();
+    response = 'token-abc';
+    const onSubmit = vi.fn();
+    attachTurnstileToForm(form, { onSubmit });
+
+    submit();
+
+    await vi.waitFor(() => expect(onSubmit).toHaveBeenCalledWith('token-abc', expect.anything()));
+  });
+
+  it('should stop guarding after cleanup', () => {
+    const controller = createController();
+    const detach = attachTurnstileToForm(form, { controller });
+
+    detach();
+
+    expect(submit().defaultPrevented).toBe(false);
+  });
+});
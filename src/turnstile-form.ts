@@ -0,0 +1,130 @@
+import type { AttachToFormOptions } from './types';
+import type { TurnstileController } from './turnstile-controller';
+import { SUBMITTING_ATTRIBUTE } from './turnstile-widgets';
+import { turnstileRegistry } from './turnstile-registry';
+import { getTurnstileLogger } from './turnstile-telemetry';
+
+/**
+ * Default time to wait for the challenge to produce a token (30 seconds)
+ */
+const DEFAULT_TOKEN_TIMEOUT = 30000;
+
+const SUBMIT_BUTTON_SELECTOR = 'button[type="submit"], button:not([type]), input[type="submit"]';
+
+/**
+ * Guards a form so it is never submitted without a Turnstile token.
+ *
+ * On submit, if the widget has no valid token yet, the submit is held, the submit
+ * buttons are disabled and the guard waits for the token (calling `execute()` first for
+ * widgets rendered with `execution: 'execute'`), then submits again.
+ *
+ * Without `onSubmit` the form is resubmitted natively. With `onSubmit` every submit is
+ * intercepted and the token handed to it for a fetch-based submit; once it has used the
+ * token the widget is reset, so the next attempt gets a fresh one.
+ *
+ * @param form - The form to guard
+ * @param options - Guard options
+ * @returns Cleanup function that removes the guard
+ */
+export function attachTurnstileToForm(
+  form: HTMLFormElement,
+  options: AttachToFormOptions = {}
+): () => void {
+  const { timeout = DEFAULT_TOKEN_TIMEOUT, onSubmit, onError } = options;
+  let inFlight = false;
+
+  const handleSubmit = async (event: SubmitEvent) => {
+    if (inFlight) {
+      event.preventDefault();
+      return;
+    }
+
+    const controller = options.controller ?? findController(form);
+    if (!controller) {
+      if (onSubmit) {
+        event.preventDefault();
+        reportError(new Error('No Turnstile widget found in form'), onError);
+      }
+      return;
+    }
+
+    const current = getValidToken(controller);
+    if (current && !onSubmit) {
+      // Native submit with a token: let it through
+      return;
+    }
+
+    event.preventDefault();
+    inFlight = true;
+    const restoreButtons = setBusy(form);
+    let resubmit = false;
+
+    try {
+      const token = current ?? (await controller.requestToken(timeout));
+
+      if (onSubmit) {
+        try {
+          await onSubmit(token, event);
+        } finally {
+          // Tokens are single-use: whatever the outcome, the next submit needs a new one
+          controller.reset();
+        }
+      } else {
+        resubmit = true;
+      }
+    } catch (error) {
+      reportError(error, onError);
+    } finally {
+      restoreButtons();
+      inFlight = false;
+    }
+
+    if (resubmit) {
+      form.requestSubmit(event.submitter as HTMLElement | null);
+    }
+  };
+
+  form.addEventListener('submit', handleSubmit);
+
+  return () => {
+    form.removeEventListener('submit', handleSubmit);
+  };
+}
+
+function findController(form: HTMLFormElement): TurnstileController | null {
+  return turnstileRegistry.get(form)?.controller ?? null;
+}
+
+function getValidToken(controller: TurnstileController): string | null {
+  const token = controller.getResponse();
+  return token && !controller.isExpired() ? token : null;
+}
+
+/**
+ * Disables the form's submit buttons and marks it as submitting.
+ * @returns Function restoring the previous state
+ */
+function setBusy(form: HTMLFormElement): () => void {
+  const buttons = Array.from(
+    form.querySelectorAll<HTMLButtonElement | HTMLInputElement>(SUBMIT_BUTTON_SELECTOR)
+  );
+  const previous = buttons.map((button) => button.disabled);
+
+  buttons.forEach((button) => {
+    button.disabled = true;
+  });
+  form.setAttribute(SUBMITTING_ATTRIBUTE, '');
+
+  return () => {
+    buttons.forEach((button, index) => {
+      button.disabled = previous[index];
+    });
+    form.removeAttribute(SUBMITTING_ATTRIBUTE);
+  };
+}
+
+function reportError(error: unknown, onError?: (error: Error) => void): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  getTurnstileLogger().warn('Turnstile form submit error:', err);
+  onError?.(err);
+}
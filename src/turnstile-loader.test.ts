@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { loadTurnstile, resetTurnstileLoader, TURNSTILE_SCRIPT_URL } from './turnstile-loader';
+
+const ONLOAD_CALLBACK = '__purplebirdTurnstileOnload';
+
+function getInjectedScripts(): HTMLScriptElement[] {
+  return Array.from(document.querySelectorAll<HTMLScriptElement>(`script[src^="${TURNSTILE_SCRIPT_URL}"]`));
+}
+
+describe('loadTurnstile', () => {
+  let originalTurnstile: any;
+  const mockTurnstile = { render: vi.fn() };
+
+  beforeEach(() => {
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = undefined;
+    resetTurnstileLoader();
+  });
+
+  afterEach(() => {
+    getInjectedScripts().forEach((script) => script.remove());
+    (window as any).turnstile = originalTurnstile;
+    resetTurnstileLoader();
+    vi.useRealTimers();
+  });
+
+  it('should resolve immediately when the API is already present', async () => {
+    (window as any).turnstile = mockTurnstile;
+
+    await expect(loadTurnstile()).resolves.toBe(mockTurnstile);
+    expect(getInjectedScripts()).toHaveLength(0);
+  });
+
+  it('should inject one explicit-render script shared by every caller', async () => {
+    const first = loadTurnstile();
+    const second = loadTurnstile();
+
+    expect(first).toBe(second);
+    const scripts = getInjectedScripts();
+    expect(scripts).toHaveLength(1);
+    expect(scripts[0].src).toBe(`${TURNSTILE_SCRIPT_URL}?render=explicit&onload=${ONLOAD_CALLBACK}`);
+
+    (window as any).turnstile = mockTurnstile;
+    (window as any)[ONLOAD_CALLBACK]();
+
+    await expect(first).resolves.toBe(mockTurnstile);
+    expect((window as any)[ONLOAD_CALLBACK]).toBeUndefined();
+  });
+
+  it('should reject when the script fails to load and allow a retry', async () => {
+    const promise = loadTurnstile();
+    getInjectedScripts()[0].dispatchEvent(new Event('error'));
+
+    await expect(promise).rejects.toThrow('failed to load');
+    expect(getInjectedScripts()).toHaveLength(0);
+
+    const retry = loadTurnstile();
+    expect(retry).not.toBe(promise);
+    expect(getInjectedScripts()).toHaveLength(1);
+    retry.catch(() => {});
+  });
+
+  it('should reject after the configured timeout', async () => {
+    vi.useFakeTimers();
+    const promise = loadTurnstile({ timeout: 1000 });
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(promise).rejects.toThrow('did not load within 1000ms');
+  });
+
+  it('should set the CSP nonce on the injected script', () => {
+    loadTurnstile({ nonce: 'r4nd0m' }).catch(() => {});
+
+    expect(getInjectedScripts()[0].nonce).toBe('r4nd0m');
+  });
+
+  it('should reuse a script tag already on the page', async () => {
+    const existing = document.createElement('script');
+    existing.src = TURNSTILE_SCRIPT_URL;
+    document.head.appendChild(existing);
+
+    const promise = loadTurnstile();
+    expect(getInjectedScripts()).toHaveLength(1);
+
+    (window as any).turnstile = mockTurnstile;
+    existing.dispatchEvent(new Event('load'));
+
+    await expect(promise).resolves.toBe(mockTurnstile);
+  });
+});
@@ -0,0 +1,102 @@
+import type { LoadTurnstileOptions, TurnstileAPI } from './types';
+import { emitTurnstileEvent } from './turnstile-telemetry';
+
+/**
+ * Cloudflare Turnstile API script URL
+ */
+export const TURNSTILE_SCRIPT_URL = 'https://challenges.cloudflare.com/turnstile/v0/api.js';
+
+/**
+ * Global callback name passed to the script's `onload` parameter
+ */
+const ONLOAD_CALLBACK = '__purplebirdTurnstileOnload';
+
+/**
+ * Default time to wait for the script to become ready (30 seconds)
+ */
+const DEFAULT_LOAD_TIMEOUT = 30000;
+
+let loadPromise: Promise<TurnstileAPI> | null = null;
+
+/**
+ * Loads the Cloudflare Turnstile script once per page, in explicit rendering mode.
+ * Every caller shares the same promise, so pages with several widgets inject a single script.
+ * A failed load is not cached; the next call tries again.
+ *
+ * @param options - Loader options
+ * @returns Promise resolving with `window.turnstile` once the API is ready
+ */
+export function loadTurnstile(options: LoadTurnstileOptions = {}): Promise<TurnstileAPI> {
+  if (window.turnstile) {
+    return Promise.resolve(window.turnstile);
+  }
+  if (loadPromise) {
+    return loadPromise;
+  }
+
+  const { timeout = DEFAULT_LOAD_TIMEOUT, nonce } = options;
+
+  loadPromise = new Promise<TurnstileAPI>((resolve, reject) => {
+    const globals = window as unknown as Record<string, unknown>;
+    let script = document.querySelector<HTMLScriptElement>(
+      `script[src^="${TURNSTILE_SCRIPT_URL}"]`
+    );
+    const injected = !script;
+
+    const finish = (error: Error | null) => {
+      clearTimeout(timer);
+      delete globals[ONLOAD_CALLBACK];
+      script?.removeEventListener('load', handleLoad);
+      script?.removeEventListener('error', handleError);
+
+      if (error || !window.turnstile) {
+        if (injected) {
+          script?.remove();
+        }
+        loadPromise = null;
+        const err = error || new Error('Turnstile script loaded but window.turnstile is missing');
+        emitTurnstileEvent({ type: 'script-error', message: err.message });
+        reject(err);
+        return;
+      }
+
+      resolve(window.turnstile);
+    };
+
+    const handleLoad = () => {
+      // Our own script reports readiness through the onload callback instead
+      if (!injected) {
+        finish(null);
+      }
+    };
+    const handleError = () => finish(new Error('Turnstile script failed to load'));
+    const timer = setTimeout(
+      () => finish(new Error(`Turnstile script did not load within ${timeout}ms`)),
+      timeout
+    );
+
+    if (injected) {
+      globals[ONLOAD_CALLBACK] = () => finish(null);
+      script = document.createElement('script');
+      script.src = `${TURNSTILE_SCRIPT_URL}?render=explicit&onload=${ONLOAD_CALLBACK}`;
+      script.async = true;
+      script.crossOrigin = 'anonymous';
+      if (nonce) {
+        script.nonce = nonce;
+      }
+      document.head.appendChild(script);
+    }
+
+    script!.addEventListener('load', handleLoad);
+    script!.addEventListener('error', handleError);
+  });
+
+  return loadPromise;
+}
+
+/**
+ * Forgets the shared load promise. Intended for tests.
+ */
+export function resetTurnstileLoader(): void {
+  loadPromise = null;
+}
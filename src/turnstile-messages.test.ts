@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  addTurnstileMessages,
+  detectTurnstileLocale,
+  getTurnstileMessages,
+  resetTurnstileMessages,
+} from './turnstile-messages';
+import { getTurnstileError } from './turnstile-errors';
+import { getTurnstileMessages as getServerMessages } from '../netlify/messages.js';
+
+describe('turnstile-messages', () => {
+  afterEach(() => {
+    resetTurnstileMessages();
+    document.documentElement.lang = '';
+  });
+
+  it('should ship English, Spanish and French with every message', () => {
+    const english = getTurnstileMessages('en');
+
+    for (const locale of ['es', 'fr']) {
+      const messages = getTurnstileMessages(locale);
+      expect(Object.keys(messages)).toEqual(Object.keys(english));
+      for (const key of Object.keys(english) as Array<keyof typeof english>) {
+        expect(messages[key], `${locale}.${key}`).not.toBe(english[key]);
+      }
+    }
+  });
+
+  it('should fall back from a regional locale to its language, then English', () => {
+    expect(getTurnstileMessages('fr-CA').retry).toBe('Réessayer');
+    expect(getTurnstileMessages('es_MX').retry).toBe('Reintentar');
+    expect(getTurnstileMessages('de').retry).toBe('Try again');
+  });
+
+  it('should detect the locale from the page, then the browser', () => {
+    expect(detectTurnstileLocale()).toBe(navigator.language);
+
+    document.documentElement.lang = 'es';
+    expect(detectTurnstileLocale()).toBe('es');
+    expect(getTurnstileMessages().verified).toBe('Verificación completada.');
+    expect(getTurnstileMessages('auto').verified).toBe('Verificación completada.');
+  });
+
+  it('should add locales and override messages, falling back to English', () => {
+    addTurnstileMessages('de', { retry: 'Erneut versuchen' });
+    addTurnstileMessages('fr', { retry: 'Recommencer' });
+
+    expect(getTurnstileMessages('de')).toMatchObject({ retry: 'Erneut versuchen', verified: 'Verification complete.' });
+    expect(getTurnstileMessages('de-AT').retry).toBe('Erneut versuchen');
+    expect(getTurnstileMessages('fr')).toMatchObject({ retry: 'Recommencer', verified: 'Vérification terminée.' });
+
+    resetTurnstileMessages();
+    expect(getTurnstileMessages('de').retry).toBe('Try again');
+  });
+
+  it('should localize the user messages of the error catalog', () => {
+    expect(getTurnstileError('110600', 'es').userMessage).toBe(getTurnstileMessages('es').timedOut);
+    expect(getTurnstileError('timeout-or-duplicate', 'fr').userMessage).toBe(getTurnstileMessages('fr').tokenExpired);
+    expect(getTurnstileError('110600', 'es').developerMessage).toBe(getTurnstileError('110600', 'en').developerMessage);
+  });
+
+  it('should read the same as the server catalog for the messages both use', () => {
+    for (const locale of ['en', 'es', 'fr']) {
+      const client = getTurnstileMessages(locale);
+      const server = getServerMessages(locale);
+      for (const key of ['failed', 'unavailable', 'completeChallenge', 'tokenExpired', 'temporarilyUnavailable'] as const) {
+        expect(client[key], `${locale}.${key}`).toBe(server[key]);
+      }
+    }
+  });
+});
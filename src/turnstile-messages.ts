@@ -0,0 +1,132 @@
+import type { TurnstileClientMessages } from './types';
+
+/**
+ * Locale used when no requested locale has messages
+ */
+export const DEFAULT_TURNSTILE_LOCALE = 'en';
+
+/**
+ * Built-in translations. Server error strings live in netlify/messages.js.
+ */
+const BUILT_IN_MESSAGES: Record<string, TurnstileClientMessages> = {
+  en: {
+    verifying: 'Verifying you are human…',
+    verified: 'Verification complete.',
+    expired: 'Verification expired. Please verify again.',
+    retry: 'Try again',
+    failed: 'Security verification failed. Please try again.',
+    unavailable: 'Security verification is unavailable right now. Please try again later.',
+    reload: 'Security verification could not start. Please reload the page.',
+    unsupportedBrowser: 'Your browser is not supported by our security check. Please update it or use another browser.',
+    inconsistentBrowser: 'Your browser could not be verified. Please disable extensions that change your user agent and try again.',
+    timedOut: 'The security check timed out. Please try again.',
+    clock: "Your device's clock is wrong. Please correct it and reload the page.",
+    scriptBlocked: 'Security verification could not load. Please check your connection or allow challenges.cloudflare.com.',
+    completeChallenge: 'Please complete the security check and try again.',
+    tokenExpired: 'Your security check expired. Please try again.',
+    temporarilyUnavailable: 'Security verification is temporarily unavailable. Please try again.',
+  },
+  es: {
+    verifying: 'Verificando que eres humano…',
+    verified: 'Verificación completada.',
+    expired: 'La verificación ha caducado. Vuelve a verificar.',
+    retry: 'Reintentar',
+    failed: 'La verificación de seguridad ha fallado. Inténtalo de nuevo.',
+    unavailable: 'La verificación de seguridad no está disponible en este momento. Inténtalo de nuevo más tarde.',
+    reload: 'No se pudo iniciar la verificación de seguridad. Recarga la página.',
+    unsupportedBrowser: 'Tu navegador no es compatible con nuestra verificación de seguridad. Actualízalo o usa otro navegador.',
+    inconsistentBrowser: 'No se pudo verificar tu navegador. Desactiva las extensiones que modifican tu agente de usuario e inténtalo de nuevo.',
+    timedOut: 'Se agotó el tiempo de la verificación de seguridad. Inténtalo de nuevo.',
+    clock: 'El reloj de tu dispositivo no es correcto. Corrígelo y recarga la página.',
+    scriptBlocked: 'No se pudo cargar la verificación de seguridad. Comprueba tu conexión o permite challenges.cloudflare.com.',
+    completeChallenge: 'Completa la verificación de seguridad e inténtalo de nuevo.',
+    tokenExpired: 'Tu verificación de seguridad ha caducado. Inténtalo de nuevo.',
+    temporarilyUnavailable: 'La verificación de seguridad no está disponible temporalmente. Inténtalo de nuevo.',
+  },
+  fr: {
+    verifying: 'Vérification que vous êtes humain…',
+    verified: 'Vérification terminée.',
+    expired: 'La vérification a expiré. Veuillez recommencer.',
+    retry: 'Réessayer',
+    failed: 'La vérification de sécurité a échoué. Veuillez réessayer.',
+    unavailable: "La vérification de sécurité n'est pas disponible pour le moment. Veuillez réessayer plus tard.",
+    reload: "La vérification de sécurité n'a pas pu démarrer. Veuillez recharger la page.",
+    unsupportedBrowser: "Votre navigateur n'est pas pris en charge par notre vérification de sécurité. Veuillez le mettre à jour ou utiliser un autre navigateur.",
+    inconsistentBrowser: "Votre navigateur n'a pas pu être vérifié. Désactivez les extensions qui modifient votre agent utilisateur et réessayez.",
+    timedOut: 'Le délai de la vérification de sécurité est dépassé. Veuillez réessayer.',
+    clock: "L'horloge de votre appareil est incorrecte. Veuillez la corriger et recharger la page.",
+    scriptBlocked: "La vérification de sécurité n'a pas pu se charger. Vérifiez votre connexion ou autorisez challenges.cloudflare.com.",
+    completeChallenge: 'Veuillez effectuer la vérification de sécurité et réessayer.',
+    tokenExpired: 'Votre vérification de sécurité a expiré. Veuillez réessayer.',
+    temporarilyUnavailable: 'La vérification de sécurité est temporairement indisponible. Veuillez réessayer.',
+  },
+};
+
+let customMessages: Record<string, Partial<TurnstileClientMessages>> = {};
+
+/**
+ * Adds a locale, or overrides some messages of an existing one. Missing messages fall back
+ * to English.
+ *
+ * @param locale - Locale code, e.g. 'de' or 'fr-CA'
+ * @param messages - Messages to add or replace
+ *
+ * @example
+ * addTurnstileMessages('de', { verifying: 'Überprüfung läuft…', verified: 'Überprüft.' });
+ */
+export function addTurnstileMessages(locale: string, messages: Partial<TurnstileClientMessages>): void {
+  const key = normalizeLocale(locale);
+  customMessages[key] = { ...customMessages[key], ...messages };
+}
+
+/**
+ * Gets the messages for a locale, trying the full code ('fr-CA'), then its language ('fr'),
+ * then English.
+ *
+ * @param locale - Locale code, or undefined/'auto' for detectTurnstileLocale()
+ * @returns Complete set of messages
+ */
+export function getTurnstileMessages(locale?: string | null): TurnstileClientMessages {
+  const english = { ...BUILT_IN_MESSAGES[DEFAULT_TURNSTILE_LOCALE], ...customMessages[DEFAULT_TURNSTILE_LOCALE] };
+  const requested = !locale || locale === 'auto' ? detectTurnstileLocale() : locale;
+  const match = findLocale(requested);
+
+  return match ? { ...english, ...BUILT_IN_MESSAGES[match], ...customMessages[match] } : english;
+}
+
+/**
+ * Detects the page's locale from `<html lang>`, then the browser language
+ *
+ * @returns Locale code (default: 'en')
+ */
+export function detectTurnstileLocale(): string {
+  const pageLanguage = typeof document !== 'undefined' ? document.documentElement.lang : '';
+  const browserLanguage = typeof navigator !== 'undefined' ? navigator.language : '';
+  return pageLanguage || browserLanguage || DEFAULT_TURNSTILE_LOCALE;
+}
+
+/**
+ * Removes every locale added with addTurnstileMessages(). Intended for tests.
+ */
+export function resetTurnstileMessages(): void {
+  customMessages = {};
+}
+
+function findLocale(locale: string): string | null {
+  const key = normalizeLocale(locale);
+  const language = key.split('-')[0];
+  for (const candidate of [key, language]) {
+    if (hasOwn(BUILT_IN_MESSAGES, candidate) || hasOwn(customMessages, candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function normalizeLocale(locale: string): string {
+  return locale.trim().toLowerCase().replace(/_/g, '-');
+}
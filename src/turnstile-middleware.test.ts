@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createTurnstileMiddleware } from './turnstile-middleware';
+import type { TurnstileMiddlewareContext } from './types';
+
+const createContext = (path: string, init: RequestInit = {}): TurnstileMiddlewareContext => {
+  const url = new URL(path, 'https://example.com');
+  return { request: new Request(url, init), url, locals: {} };
+};
+
+describe('turnstile-middleware', () => {
+  const fetchMock = vi.fn();
+  const next = vi.fn(async () => new Response('route'));
+
+  const middleware = (options = {}) =>
+    createTurnstileMiddleware({
+      routes: ['/api/contact', '/api/forms/*', /^\/newsletter$/],
+      secretKey: 'secret-key',
+      fetch: fetchMock,
+      ...options,
+    });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    next.mockClear();
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({ success: true, hostname: 'example.com' }) });
+  });
+
+  it('should verify protected routes and expose the result on locals', async () => {
+    const context = createContext('/api/contact', {
+      method: 'POST',
+      headers: { 'X-Turnstile-Token': 'token-123' },
+    });
+
+    const response = await middleware()(context, next);
+
+    expect(await response.text()).toBe('route');
+    expect(context.locals.turnstile).toMatchObject({ success: true, hostname: 'example.com' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave the body readable by the route', async () => {
+    const context = createContext('/api/forms/signup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'cf-turnstile-response=token-123&name=Ada',
+    });
+    next.mockImplementationOnce(async () => new Response((await context.request.formData()).get('name')));
+
+    const response = await middleware()(context, next);
+
+    expect(await response.text()).toBe('Ada');
+  });
+
+  it('should match exact paths, prefixes and patterns only', async () => {
+    for (const path of ['/about', '/api/contact/extra', '/api/other']) {
+      await middleware()(createContext(path, { method: 'POST' }), next);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(3);
+
+    const response = await middleware()(createContext('/newsletter', { method: 'POST' }), next);
+    expect(response.status).toBe(400);
+  });
+
+  it('should verify paths with a trailing slash or percent-encoding', async () => {
+    for (const path of ['/api/contact/', '/api/contac%74', '/api/forms%2Fsignup', '/newsletter/']) {
+      const response = await middleware()(createContext(path, { method: 'POST' }), next);
+      expect(response.status, path).toBe(400);
+    }
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should skip GET, HEAD and OPTIONS by default', async () => {
+    await middleware()(createContext('/api/contact'), next);
+    await middleware()(createContext('/api/contact', { method: 'OPTIONS' }), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject a failed verification without calling the route', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ success: false, 'error-codes': ['invalid-input-response'] }),
+    });
+
+    const response = await middleware()(
+      createContext('/api/contact', { method: 'POST', headers: { 'X-Turnstile-Token': 'bad-token' } }),
+      next
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response.status).toBe(403);
+    expect(response.headers.get('X-Turnstile-Error')).toBe('siteverify-rejected');
+    vi.restoreAllMocks();
+  });
+
+  it('should use a custom failure response', async () => {
+    const onFailure = vi.fn(() => Response.redirect('https://example.com/contact?error=1', 303));
+    const context = createContext('/api/contact', { method: 'POST' });
+
+    const response = await middleware({ onFailure })(context, next);
+
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ reason: 'missing-token' }), context);
+    expect(response.status).toBe(303);
+  });
+});
@@ -0,0 +1,65 @@
+import type { TurnstileMiddlewareContext, TurnstileMiddlewareOptions } from './types';
+import { createTurnstileFailureResponse, verifyRequest } from './turnstile-request';
+
+/**
+ * Methods passed through without verification by default
+ */
+const DEFAULT_SKIP_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Create an Astro `onRequest` middleware that verifies Turnstile on the configured routes.
+ * Verified requests continue with the result on `context.locals.turnstile`; failed ones are
+ * answered with createTurnstileFailureResponse() (or `onFailure`) without reaching the route.
+ *
+ * @param options - Routes to protect, failure response and verifyRequest options
+ * @returns Astro middleware
+ *
+ * @example
+ * // src/middleware.ts
+ * export const onRequest = createTurnstileMiddleware({
+ *   routes: ['/api/contact', '/api/forms/*'],
+ *   secretKey: import.meta.env.TURNSTILE_SECRET_KEY,
+ * });
+ */
+export function createTurnstileMiddleware(options: TurnstileMiddlewareOptions) {
+  const { routes, skipMethods = DEFAULT_SKIP_METHODS, onFailure, ...verifyOptions } = options;
+  const skipped = skipMethods.map((method) => method.toUpperCase());
+
+  return async (context: TurnstileMiddlewareContext, next: () => Promise<Response>): Promise<Response> => {
+    if (skipped.includes(context.request.method.toUpperCase()) || !matchesRoute(context.url.pathname, routes)) {
+      return next();
+    }
+
+    const verification = await verifyRequest(context.request, verifyOptions);
+    if (!verification.success) {
+      return onFailure ? onFailure(verification, context) : createTurnstileFailureResponse(verification);
+    }
+
+    context.locals.turnstile = verification;
+    return next();
+  };
+}
+
+function matchesRoute(pathname: string, routes: Array<string | RegExp>): boolean {
+  const path = normalizePathname(pathname);
+  return routes.some((route) => {
+    if (route instanceof RegExp) {
+      return route.test(path);
+    }
+    return route.endsWith('*') ? path.startsWith(route.slice(0, -1)) : path === route;
+  });
+}
+
+/**
+ * Compares paths the way Astro routes them: `/api/contac%74` and `/api/contact/` (with the default
+ * `trailingSlash: 'ignore'`) both reach `/api/contact`, so they must not skip verification
+ */
+function normalizePathname(pathname: string): string {
+  let path = pathname;
+  try {
+    path = decodeURIComponent(pathname);
+  } catch {
+    // Malformed escapes are compared as they are
+  }
+  return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
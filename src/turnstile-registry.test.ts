@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TurnstileWidgetRegistry, turnstileRegistry } from './turnstile-registry';
+import { TurnstileController } from './turnstile-controller';
+import { getTurnstileToken } from './turnstile-client';
+import { destroyTurnstileWidgets, initTurnstileWidgets } from './turnstile-widgets';
+
+function createForm(containerId: string, attributes: Record<string, string> = {}): HTMLFormElement {
+  const form = document.createElement('form');
+  const container = document.createElement('div');
+  container.id = containerId;
+  container.className = 'cf-turnstile';
+  container.setAttribute('data-sitekey', 'site-key');
+  Object.entries(attributes).forEach(([name, value]) => container.setAttribute(name, value));
+  form.appendChild(container);
+  document.body.appendChild(form);
+  return form;
+}
+
+describe('TurnstileWidgetRegistry', () => {
+  let mockTurnstile: any;
+  let originalTurnstile: any;
+  let responses: Record<string, string>;
+
+  beforeEach(() => {
+    responses = {};
+    mockTurnstile = {
+      render: vi.fn((container: HTMLElement) => `widget-${container.id}`),
+      reset: vi.fn(),
+      remove: vi.fn(),
+      getResponse: vi.fn((widgetId: string) => responses[widgetId] ?? ''),
+      isExpired: vi.fn(() => false),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+  });
+
+  afterEach(() => {
+    destroyTurnstileWidgets();
+    document.body.innerHTML = '';
+    (window as any).turnstile = originalTurnstile;
+    vi.restoreAllMocks();
+  });
+
+  it('should take each form token from its own widget', async () => {
+    const newsletter = createForm('newsletter-turnstile');
+    const contact = createForm('contact-turnstile', { 'data-response-field-name': 'contact-token' });
+    await initTurnstileWidgets();
+
+    responses['widget-newsletter-turnstile'] = 'newsletter-token';
+    responses['widget-contact-turnstile'] = 'contact-token';
+
+    expect(turnstileRegistry.getTokenFor(newsletter)).toBe('newsletter-token');
+    expect(turnstileRegistry.getTokenFor(contact)).toBe('contact-token');
+    expect(turnstileRegistry.getTokenFor('contact-turnstile')).toBe('contact-token');
+    expect(getTurnstileToken(contact)).toBe('contact-token');
+    expect(turnstileRegistry.get('contact-turnstile')).toMatchObject({
+      id: 'contact-turnstile',
+      responseFieldName: 'contact-token',
+    });
+    expect(turnstileRegistry.get(newsletter)?.responseFieldName).toBe('cf-turnstile-response');
+  });
+
+  it('should not return expired tokens', async () => {
+    const form = createForm('expiring');
+    await initTurnstileWidgets();
+    responses['widget-expiring'] = 'old-token';
+    mockTurnstile.isExpired.mockReturnValue(true);
+
+    expect(turnstileRegistry.getTokenFor(form)).toBeNull();
+  });
+
+  it('should read unregistered containers from their custom response field', () => {
+    const form = createForm('implicit', { 'data-response-field-name': 'custom-token' });
+    const input = document.createElement('input');
+    input.name = 'custom-token';
+    input.value = 'implicit-token';
+    form.querySelector('.cf-turnstile')!.appendChild(input);
+
+    expect(turnstileRegistry.getTokenFor(form)).toBe('implicit-token');
+    expect(turnstileRegistry.getTokenFor('implicit')).toBeNull();
+  });
+
+  it('should reset and remove every widget', async () => {
+    createForm('first');
+    createForm('second');
+    await initTurnstileWidgets();
+
+    turnstileRegistry.resetAll();
+    expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-first');
+    expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-second');
+
+    turnstileRegistry.removeAll();
+    expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-first');
+    expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-second');
+    expect(turnstileRegistry.getAll()).toEqual([]);
+    expect(document.getElementById('first')!.hasAttribute('data-widget-id')).toBe(false);
+
+    // Removed widgets are rendered again on the next init
+    await initTurnstileWidgets();
+    expect(mockTurnstile.render).toHaveBeenCalledTimes(4);
+  });
+
+  it('should resolve a form with several widgets to the first in document order', () => {
+    const registry = new TurnstileWidgetRegistry();
+    const form = createForm('top');
+    const bottom = document.createElement('div');
+    form.appendChild(bottom);
+
+    registry.register(bottom, new TurnstileController(bottom, { sitekey: 'site-key' }));
+    const top = document.getElementById('top')!;
+    registry.register(top, new TurnstileController(top, { sitekey: 'site-key' }));
+
+    expect(registry.get(form)?.container).toBe(top);
+    expect(registry.get(bottom)?.id).toMatch(/^turnstile-widget-\d+$/);
+  });
+
+  it('should keep the latest widget registered under a duplicate ID', () => {
+    const registry = new TurnstileWidgetRegistry();
+    const warn = vi.fn();
+    vi.spyOn(console, 'warn').mockImplementation(warn);
+    const first = document.createElement('div');
+    const second = document.createElement('div');
+    first.id = second.id = 'duplicate';
+
+    const unregisterFirst = registry.register(first, new TurnstileController(first, { sitekey: 'site-key' }));
+    registry.register(second, new TurnstileController(second, { sitekey: 'site-key' }));
+    unregisterFirst();
+
+    expect(registry.get('duplicate')?.container).toBe(second);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"duplicate"'));
+  });
+});
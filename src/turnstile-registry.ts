@@ -0,0 +1,160 @@
+import type { RegisteredTurnstileWidget, RegisterTurnstileWidgetOptions } from './types';
+import type { TurnstileController } from './turnstile-controller';
+import { getTurnstileLogger } from './turnstile-telemetry';
+
+/**
+ * Default name of the hidden input Turnstile creates for the token
+ */
+const DEFAULT_RESPONSE_FIELD_NAME = 'cf-turnstile-response';
+
+interface RegistryEntry extends RegisteredTurnstileWidget {
+  remove: () => void;
+}
+
+/**
+ * Tracks the rendered widgets of a page by container ID, so several widgets (a newsletter
+ * form and a contact form, say) can live side by side and each form reads its own token.
+ * Widgets rendered by TurnstileWidget.astro and `<turnstile-widget>` register themselves
+ * with `turnstileRegistry`.
+ *
+ * @example
+ * form.addEventListener('submit', () => {
+ *   const token = turnstileRegistry.getTokenFor(form);
+ * });
+ */
+export class TurnstileWidgetRegistry {
+  private readonly widgets = new Map<string, RegistryEntry>();
+  private generatedIds = 0;
+
+  /**
+   * Registers a rendered widget under its container's ID. A widget registered under the
+   * same ID replaces the previous one.
+   *
+   * @param container - Element the widget is rendered in
+   * @param controller - Controller of the widget
+   * @param options - Response field name and teardown
+   * @returns Function that unregisters the widget
+   */
+  register(
+    container: HTMLElement,
+    controller: TurnstileController,
+    options: RegisterTurnstileWidgetOptions = {}
+  ): () => void {
+    const id = container.id || `turnstile-widget-${++this.generatedIds}`;
+    const existing = this.widgets.get(id);
+    if (existing && existing.container !== container) {
+      getTurnstileLogger().warn(`Turnstile widget ID "${id}" is used by more than one container; keeping the latest.`);
+    }
+
+    const entry: RegistryEntry = {
+      id,
+      container,
+      controller,
+      responseFieldName: options.responseFieldName || DEFAULT_RESPONSE_FIELD_NAME,
+      remove: options.remove ?? (() => controller.remove()),
+    };
+    this.widgets.set(id, entry);
+
+    return () => {
+      if (this.widgets.get(id) === entry) {
+        this.widgets.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Finds a widget by container ID, by its container, or by an element containing it such
+   * as its form. An element containing several widgets resolves to the first in document order.
+   *
+   * @param target - Container ID, container, or form
+   * @returns The widget, or null if none is registered there
+   */
+  get(target: string | Element): RegisteredTurnstileWidget | null {
+    const entry = this.find(target);
+    return entry ? toWidget(entry) : null;
+  }
+
+  /**
+   * Every registered widget, in registration order
+   */
+  getAll(): RegisteredTurnstileWidget[] {
+    return Array.from(this.widgets.values(), toWidget);
+  }
+
+  /**
+   * Gets the token of a form's own widget, or of a container. Containers rendered outside
+   * the registry (e.g. by Cloudflare's implicit rendering) are read from their hidden input,
+   * honouring `data-response-field-name`.
+   *
+   * @param formOrContainer - Form, container, or container ID
+   * @returns The token, or null if there is none or it has expired
+   */
+  getTokenFor(formOrContainer: string | Element): string | null {
+    const entry = this.find(formOrContainer);
+    if (entry) {
+      const token = entry.controller.getResponse();
+      return token && !entry.controller.isExpired() ? token : null;
+    }
+
+    return typeof formOrContainer === 'string' ? null : readResponseField(formOrContainer);
+  }
+
+  /**
+   * Resets every registered widget, discarding their tokens
+   */
+  resetAll(): void {
+    this.widgets.forEach(({ id, controller }) => {
+      try {
+        controller.reset();
+      } catch (error) {
+        getTurnstileLogger().warn(`Turnstile widget "${id}" could not be reset:`, error);
+      }
+    });
+  }
+
+  /**
+   * Removes every registered widget from the page and empties the registry
+   */
+  removeAll(): void {
+    const entries = Array.from(this.widgets.values());
+    this.widgets.clear();
+    entries.forEach(({ remove }) => remove());
+  }
+
+  private find(target: string | Element): RegistryEntry | null {
+    if (typeof target === 'string') {
+      return this.widgets.get(target) ?? null;
+    }
+
+    let match: RegistryEntry | null = null;
+    for (const entry of this.widgets.values()) {
+      if (target.contains(entry.container) && (!match || precedes(entry.container, match.container))) {
+        match = entry;
+      }
+    }
+    return match;
+  }
+}
+
+/**
+ * Registry used by TurnstileWidget.astro, `<turnstile-widget>` and the form and fetch helpers
+ */
+export const turnstileRegistry = new TurnstileWidgetRegistry();
+
+function toWidget({ id, container, controller, responseFieldName }: RegistryEntry): RegisteredTurnstileWidget {
+  return { id, container, controller, responseFieldName };
+}
+
+function precedes(a: Element, b: Element): boolean {
+  return Boolean(a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING);
+}
+
+function readResponseField(element: Element): string | null {
+  const container = element.matches('.cf-turnstile') ? element : element.querySelector('.cf-turnstile');
+  const name = container?.getAttribute('data-response-field-name') || DEFAULT_RESPONSE_FIELD_NAME;
+  const findInput = (root: Element) =>
+    Array.from(root.querySelectorAll('input')).find((input) => input.name === name);
+
+  const input = (container && findInput(container)) || findInput(element);
+  return input?.value || null;
+}
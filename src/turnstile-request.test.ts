@@ -0,0 +1,209 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createTurnstileFailureResponse,
+  getTurnstileTokenFromRequest,
+  verifyRequest,
+} from './turnstile-request';
+import { TURNSTILE_TEST_SECRET_KEY } from './turnstile-client';
+import { onTurnstileEvent, resetTurnstileTelemetry, setTurnstileLogger } from './turnstile-telemetry';
+
+const REQUEST_URL = 'https://example.com/api/contact';
+
+describe('turnstile-request', () => {
+  describe('getTurnstileTokenFromRequest', () => {
+    it('should read the X-Turnstile-Token header', async () => {
+      const request = new Request(REQUEST_URL, { method: 'POST', headers: { 'X-Turnstile-Token': 'header-token' } });
+
+      expect(await getTurnstileTokenFromRequest(request)).toBe('header-token');
+    });
+
+    it('should read a urlencoded body and leave it unconsumed', async () => {
+      const request = new Request(REQUEST_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'cf-turnstile-response=form-token&email=a%40example.com',
+      });
+
+      expect(await getTurnstileTokenFromRequest(request)).toBe('form-token');
+      expect(request.bodyUsed).toBe(false);
+      expect((await request.formData()).get('email')).toBe('a@example.com');
+    });
+
+    it('should read a multipart body', async () => {
+      const body = new FormData();
+      body.append('cf-turnstile-response', 'multipart-token');
+      body.append('attachment', new Blob(['file']), 'file.txt');
+      const request = new Request(REQUEST_URL, { method: 'POST', body });
+
+      expect(await getTurnstileTokenFromRequest(request)).toBe('multipart-token');
+      expect(request.bodyUsed).toBe(false);
+    });
+
+    it('should read both JSON field names', async () => {
+      const json = (payload: unknown) =>
+        new Request(REQUEST_URL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        });
+
+      expect(await getTurnstileTokenFromRequest(json({ 'cf-turnstile-response': 'json-token' }))).toBe('json-token');
+      expect(await getTurnstileTokenFromRequest(json({ cfTurnstileResponse: 'camel-token' }))).toBe('camel-token');
+    });
+
+    it('should return null for a malformed or tokenless body', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const invalid = new Request(REQUEST_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{not json',
+      });
+
+      expect(await getTurnstileTokenFromRequest(invalid)).toBeNull();
+      expect(await getTurnstileTokenFromRequest(new Request(REQUEST_URL, { method: 'POST', body: 'plain' }))).toBeNull();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('verifyRequest', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      fetchMock.mockResolvedValue({ ok: true, json: async () => ({ success: true, action: 'contact' }) });
+    });
+
+    afterEach(() => {
+      resetTurnstileTelemetry();
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    });
+
+    it('should verify the token with the client IP', async () => {
+      const request = new Request(REQUEST_URL, {
+        method: 'POST',
+        headers: { 'X-Turnstile-Token': 'token-123', 'X-Forwarded-For': '198.51.100.1, 10.0.0.1' },
+      });
+
+      const result = await verifyRequest(request, {
+        secretKey: 'secret-key',
+        fetch: fetchMock,
+        clientIp: { trustedProxies: 2 },
+      });
+
+      expect(result).toMatchObject({ success: true, action: 'contact' });
+      const body = fetchMock.mock.calls[0][1].body as URLSearchParams;
+      expect(body.get('secret')).toBe('secret-key');
+      expect(body.get('response')).toBe('token-123');
+      expect(body.get('remoteip')).toBe('198.51.100.1');
+    });
+
+    it('should prefer an explicit remote IP and pass policy options through', async () => {
+      const request = new Request(REQUEST_URL, {
+        method: 'POST',
+        headers: { 'X-Turnstile-Token': 'token-123', 'X-Nf-Client-Connection-Ip': '203.0.113.7' },
+      });
+
+      const result = await verifyRequest(request, {
+        secretKey: 'secret-key',
+        remoteIp: '192.0.2.1',
+        expectedAction: 'signup',
+        fetch: fetchMock,
+      });
+
+      expect(fetchMock.mock.calls[0][1].body.get('remoteip')).toBe('192.0.2.1');
+      expect(result).toMatchObject({ success: false, reason: 'action-mismatch' });
+    });
+
+    it('should fall back to the environment secret', async () => {
+      const request = new Request(REQUEST_URL, { method: 'POST', headers: { 'X-Turnstile-Token': 'token-123' } });
+
+      vi.stubEnv('TURNSTILE_SECRET_KEY', 'env-secret');
+      await verifyRequest(request, { fetch: fetchMock });
+      expect(fetchMock.mock.calls[0][1].body.get('secret')).toBe('env-secret');
+    });
+
+    it('should fail with missing-secret when no secret is configured, whatever the environment', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubEnv('TURNSTILE_SECRET_KEY', '');
+      vi.stubEnv('NODE_ENV', '');
+      vi.stubEnv('CONTEXT', '');
+      const request = () =>
+        new Request(REQUEST_URL, { method: 'POST', headers: { 'X-Turnstile-Token': 'XXXX.DUMMY.TOKEN.XXXX' } });
+
+      const result = await verifyRequest(request(), { fetch: fetchMock });
+
+      expect(result).toMatchObject({ success: false, reason: 'missing-secret' });
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      await verifyRequest(request(), { secretKey: TURNSTILE_TEST_SECRET_KEY, fetch: fetchMock });
+      expect(fetchMock.mock.calls[0][1].body.get('secret')).toBe(TURNSTILE_TEST_SECRET_KEY);
+    });
+
+    it('should fail without calling siteverify when the token is missing', async () => {
+      const result = await verifyRequest(new Request(REQUEST_URL, { method: 'POST' }), {
+        secretKey: 'secret-key',
+        fetch: fetchMock,
+      });
+
+      expect(result).toMatchObject({ success: false, reason: 'missing-token' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should share the listeners and logger of the main entry', async () => {
+      const listener = vi.fn();
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      onTurnstileEvent(listener);
+      setTurnstileLogger(logger);
+      const request = new Request(REQUEST_URL, { method: 'POST', headers: { 'X-Turnstile-Token': 'token-123' } });
+
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: false, 'error-codes': ['invalid-input-response'] }),
+      });
+
+      await verifyRequest(request, { secretKey: 'secret-key', fetch: fetchMock });
+
+      expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['verify-start', 'verify-result']);
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ success: false, errorCodes: ['invalid-input-response'] })
+      );
+      expect(logger.error).toHaveBeenCalledWith('Turnstile verification failed:', ['invalid-input-response']);
+    });
+  });
+
+  describe('createTurnstileFailureResponse', () => {
+    it('should map failure reasons to status codes', () => {
+      expect(createTurnstileFailureResponse({ success: false, reason: 'missing-token' }).status).toBe(400);
+      expect(createTurnstileFailureResponse({ success: false, reason: 'siteverify-rejected' }).status).toBe(403);
+      expect(createTurnstileFailureResponse({ success: false, reason: 'missing-secret' }).status).toBe(500);
+      expect(createTurnstileFailureResponse({ success: false, reason: 'siteverify-timeout' }).status).toBe(503);
+    });
+
+    it('should return JSON with the X-Turnstile-Error header', async () => {
+      const response = createTurnstileFailureResponse({
+        success: false,
+        error: 'Security verification failed. Please try again.',
+        reason: 'siteverify-rejected',
+        errorCodes: ['invalid-input-response'],
+      });
+
+      expect(response.headers.get('X-Turnstile-Error')).toBe('siteverify-rejected');
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Security verification failed. Please try again.',
+        reason: 'siteverify-rejected',
+        errorCodes: ['invalid-input-response'],
+      });
+    });
+
+    it('should answer rate-limited clients with 429 and Retry-After', async () => {
+      const response = createTurnstileFailureResponse({ success: false, reason: 'rate-limited', retryAfter: 42 });
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('42');
+      expect(await response.json()).toMatchObject({ reason: 'rate-limited', retryAfter: 42 });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import type { VerificationResult, VerifyRequestOptions } from './types';
+import { verifyTurnstile } from '../netlify/verify-turnstile.js';
+import { resolveSecretKey, TurnstileConfigError } from '../netlify/turnstile-keys.js';
+import { getTurnstileLogger } from '../netlify/telemetry.js';
+import { getErrorDetails, getFailureResponse } from '../netlify/error-codes.js';
+import { getTurnstileMessages, negotiateTurnstileLocale } from '../netlify/messages.js';
+import { getClientIp } from '../netlify/client-ip.js';
+import { TURNSTILE_TOKEN_HEADER } from './turnstile-fetch';
+
+export { getClientIp };
+
+/**
+ * Form field the widget submits the token under
+ */
+const TOKEN_FIELD = 'cf-turnstile-response';
+
+/**
+ * Extract the Turnstile token from a Fetch API Request (Astro endpoints and middleware,
+ * Netlify Functions v2, edge functions).
+ * Reads the `X-Turnstile-Token` header, then multipart/form-data, urlencoded and JSON bodies.
+ * The body is read from a clone, so the handler can still consume it.
+ *
+ * @param request - Incoming request
+ * @returns The token, or null
+ */
+export async function getTurnstileTokenFromRequest(request: Request): Promise<string | null> {
+  const headerToken = request.headers.get(TURNSTILE_TOKEN_HEADER);
+  if (headerToken) {
+    return headerToken;
+  }
+
+  const contentType = request.headers.get('content-type') || '';
+
+  try {
+    if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+      const value = (await request.clone().formData()).get(TOKEN_FIELD);
+      return typeof value === 'string' ? value : null;
+    }
+
+    if (contentType.includes('application/json')) {
+      const payload = await request.clone().json();
+      return payload?.[TOKEN_FIELD] || payload?.cfTurnstileResponse || null;
+    }
+  } catch (error) {
+    getTurnstileLogger().error('Failed to parse request body while extracting Turnstile token:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Extract and verify the Turnstile token of a Fetch API Request.
+ *
+ * @param request - Incoming request (its body is left unread)
+ * @param options - Secret key (a missing one fails with `missing-secret`, never the test secret),
+ *   client IP and verifyTurnstile options. Error messages are in
+ *   `locale`, or the best match for the request's Accept-Language header
+ * @returns Verification result
+ */
+export async function verifyRequest(
+  request: Request,
+  options: VerifyRequestOptions = {}
+): Promise<VerificationResult> {
+  const { secretKey, mode, siteKey, allowTestKeys, remoteIp, clientIp, ...verifyOptions } = options;
+  const locale = verifyOptions.locale || negotiateTurnstileLocale(request.headers.get('accept-language'));
+
+  let secret: string;
+  try {
+    secret = resolveSecretKey(secretKey, { mode, siteKey, allowTestKeys });
+  } catch (error) {
+    if (!(error instanceof TurnstileConfigError)) {
+      throw error;
+    }
+    (verifyOptions.logger || getTurnstileLogger()).error(error.message);
+    return {
+      success: false,
+      reason: error.reason,
+      error: getTurnstileMessages(locale).notConfigured,
+      errorDetails: getErrorDetails({ success: false, reason: error.reason }, locale),
+    };
+  }
+
+  const token = await getTurnstileTokenFromRequest(request);
+  return verifyTurnstile(
+    token,
+    secret,
+    remoteIp === undefined ? getClientIp(request, clientIp) : remoteIp,
+    { ...verifyOptions, locale }
+  );
+}
+
+/**
+ * Build the JSON failure response returned by createTurnstileMiddleware (the same shape as withTurnstile's):
+ * `{ success: false, error, reason, errorCodes? }` with the `X-Turnstile-Error` header,
+ * which turnstileFetch recognises.
+ *
+ * @param verification - Failed verification result
+ * @returns 400 for a missing token, 403 for a rejected token, 429 with `Retry-After` for a rate-limited
+ *   client, 5xx for configuration or siteverify failures
+ */
+export function createTurnstileFailureResponse(verification: VerificationResult): Response {
+  const { status, headers, body } = getFailureResponse(verification);
+  return new Response(body, { status, headers });
+}
@@ -0,0 +1,134 @@
+import type { TurnstileClientMessages, TurnstileStatusRegionState } from './types';
+import type { TurnstileController } from './turnstile-controller';
+import { getTurnstileError } from './turnstile-errors';
+import { getTurnstileMessages } from './turnstile-messages';
+
+/**
+ * Default message of each state
+ */
+const STATE_MESSAGES: Record<TurnstileStatusRegionState, keyof TurnstileClientMessages> = {
+  verifying: 'verifying',
+  verified: 'verified',
+  expired: 'expired',
+  failed: 'failed',
+  'script-blocked': 'scriptBlocked',
+  unsupported: 'unsupportedBrowser',
+};
+
+/**
+ * States in which the widget cannot work, so the fallback slot is shown
+ */
+const FALLBACK_STATES: TurnstileStatusRegionState[] = ['script-blocked', 'unsupported'];
+
+/**
+ * Error code Turnstile reports for an unsupported browser
+ */
+const UNSUPPORTED_BROWSER_CODE = '110500';
+
+interface StatusOptions {
+  /** Message to show instead of the state's default */
+  message?: string;
+  /** Shows the retry button, calling this when clicked */
+  onRetry?: () => void;
+}
+
+/**
+ * Whether a container rendered by TurnstileWidget.astro has a status region or fallback content
+ * @param container - Widget container element
+ */
+export function hasTurnstileStatus(container: HTMLElement): boolean {
+  return Boolean(findLinked(container, 'turnstileStatus') || findLinked(container, 'turnstileFallback'));
+}
+
+/**
+ * Shows a state in the status region and fallback content linked to a widget container through
+ * `data-turnstile-status` and `data-turnstile-fallback`. Containers without them are left alone.
+ *
+ * @param container - Widget container element
+ * @param state - State to show
+ * @param options - Message override and retry action
+ */
+export function setTurnstileStatus(
+  container: HTMLElement,
+  state: TurnstileStatusRegionState,
+  options: StatusOptions = {}
+): void {
+  const region = findLinked(container, 'turnstileStatus');
+  const fallback = findLinked(container, 'turnstileFallback');
+  if (!region && !fallback) return;
+
+  const messages = getTurnstileMessages(container.dataset.language);
+  const { onRetry } = options;
+
+  if (region) {
+    region.setAttribute('data-state', state);
+
+    const message = region.querySelector('.turnstile-status__message');
+    if (message) {
+      message.textContent = options.message ?? messages[STATE_MESSAGES[state]];
+    }
+
+    const retry = region.querySelector<HTMLButtonElement>('.turnstile-status__retry');
+    if (retry) {
+      retry.textContent = messages.retry;
+      retry.hidden = !onRetry;
+      // Assigned rather than added so each state replaces the previous action
+      retry.onclick = onRetry ? () => onRetry() : null;
+    }
+  }
+
+  if (fallback) {
+    fallback.hidden = !FALLBACK_STATES.includes(state);
+  }
+}
+
+/**
+ * Drives a widget's status region from its controller: verifying on render and retry,
+ * verified on a token, expired, and failed (with a retry button when the error is retryable)
+ * on errors and timeouts.
+ *
+ * @param container - Widget container element
+ * @param controller - Controller of the rendered widget
+ * @returns Function that stops updating the region
+ */
+export function bindTurnstileStatus(container: HTMLElement, controller: TurnstileController): () => void {
+  if (!hasTurnstileStatus(container)) {
+    return () => {};
+  }
+
+  const retry = () => {
+    controller.reset();
+    setTurnstileStatus(container, 'verifying');
+  };
+
+  setTurnstileStatus(container, 'verifying');
+
+  const unsubscribers = [
+    controller.on('token', () => setTurnstileStatus(container, 'verified')),
+    controller.on('expired', () => setTurnstileStatus(container, 'expired')),
+    controller.on('timeout', () =>
+      setTurnstileStatus(container, 'failed', {
+        message: getTurnstileMessages(container.dataset.language).timedOut,
+        onRetry: retry,
+      })
+    ),
+    controller.on('error', (code) => {
+      const error = getTurnstileError(code, container.dataset.language);
+      if (error.code === UNSUPPORTED_BROWSER_CODE) {
+        setTurnstileStatus(container, 'unsupported');
+        return;
+      }
+      setTurnstileStatus(container, 'failed', {
+        message: error.userMessage,
+        onRetry: error.retryable ? retry : undefined,
+      });
+    }),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+function findLinked(container: HTMLElement, key: 'turnstileStatus' | 'turnstileFallback'): HTMLElement | null {
+  const id = container.dataset[key];
+  return id ? container.ownerDocument.getElementById(id) : null;
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  emitTurnstileEvent,
+  getTurnstileLogger,
+  onTurnstileEvent,
+  resetTurnstileTelemetry,
+  setTurnstileLogger,
+} from './turnstile-telemetry';
+import { TurnstileController } from './turnstile-controller';
+import { setupAutoRefresh } from './turnstile-client';
+import { loadTurnstile, resetTurnstileLoader, TURNSTILE_SCRIPT_URL } from './turnstile-loader';
+import type { TurnstileTelemetryEvent } from './types';
+
+describe('turnstile-telemetry', () => {
+  let container: HTMLElement;
+  let mockTurnstile: any;
+  let renderParams: any;
+  let originalTurnstile: any;
+  let events: TurnstileTelemetryEvent[];
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+
+    renderParams = null;
+    mockTurnstile = {
+      render: vi.fn((_container, params) => {
+        renderParams = params;
+        return 'widget-123';
+      }),
+      reset: vi.fn(),
+      remove: vi.fn(),
+      getResponse: vi.fn(() => ''),
+      isExpired: vi.fn(() => false),
+      execute: vi.fn(),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+
+    events = [];
+    onTurnstileEvent((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    container.remove();
+    (window as any).turnstile = originalTurnstile;
+    resetTurnstileTelemetry();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should report render, token, expiry, error and timeout events', () => {
+    const controller = new TurnstileController(container, { sitekey: 'site-key', action: 'contact' });
+    controller.render();
+
+    renderParams.callback('token-abc');
+    renderParams['expired-callback']();
+    renderParams['error-callback']('110200');
+    renderParams['timeout-callback']();
+
+    expect(events.map((event) => event.type)).toEqual([
+      'widget-render',
+      'token-issued',
+      'token-expired',
+      'widget-error',
+      'widget-timeout',
+    ]);
+    expect(events[0]).toMatchObject({ widgetId: 'widget-123', action: 'contact' });
+    expect(events[3]).toMatchObject({ widgetId: 'widget-123', code: '110200' });
+    expect(events.every((event) => typeof event.timestamp === 'number')).toBe(true);
+  });
+
+  it('should measure time-to-token from the start of the challenge', () => {
+    vi.useFakeTimers();
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+    controller.render();
+
+    vi.advanceTimersByTime(1200);
+    renderParams.callback('token-1');
+
+    controller.reset();
+    vi.advanceTimersByTime(300);
+    renderParams.callback('token-2');
+
+    const issued = events.filter((event) => event.type === 'token-issued');
+    expect(issued).toEqual([
+      expect.objectContaining({ timeToToken: 1200 }),
+      expect.objectContaining({ timeToToken: 300 }),
+    ]);
+  });
+
+  it('should report refreshes with their strategy', () => {
+    vi.useFakeTimers();
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+    controller.render();
+
+    const cleanup = setupAutoRefresh(controller, { refreshInterval: 1000 });
+    vi.advanceTimersByTime(1100);
+    cleanup();
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'widget-refresh', widgetId: 'widget-123', strategy: 'interval' })
+    );
+  });
+
+  it('should report a script that fails to load', async () => {
+    (window as any).turnstile = undefined;
+    resetTurnstileLoader();
+
+    const promise = loadTurnstile();
+    document.querySelector(`script[src^="${TURNSTILE_SCRIPT_URL}"]`)!.dispatchEvent(new Event('error'));
+
+    await expect(promise).rejects.toThrow();
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'script-error', message: 'Turnstile script failed to load' })
+    );
+    resetTurnstileLoader();
+  });
+
+  it('should stop notifying a listener once unsubscribed', () => {
+    const listener = vi.fn();
+    const unsubscribe = onTurnstileEvent(listener);
+
+    emitTurnstileEvent({ type: 'token-expired', widgetId: 'widget-123' });
+    unsubscribe();
+    emitTurnstileEvent({ type: 'token-expired', widgetId: 'widget-123' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log a throwing listener without affecting the others', () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    setTurnstileLogger(logger);
+    onTurnstileEvent(() => {
+      throw new Error('listener failed');
+    });
+
+    emitTurnstileEvent({ type: 'widget-timeout', widgetId: 'widget-123' });
+
+    expect(events).toHaveLength(1);
+    expect(logger.warn).toHaveBeenCalledWith('Turnstile telemetry listener error:', expect.any(Error));
+  });
+
+  it('should route library logs to the configured logger, or silence them', () => {
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const controller = new TurnstileController(container, { sitekey: 'site-key' });
+    controller.on('token', () => {
+      throw new Error('listener failed');
+    });
+    controller.render();
+
+    setTurnstileLogger(logger);
+    renderParams.callback('token-1');
+    expect(logger.warn).toHaveBeenCalledWith('Turnstile token listener error:', expect.any(Error));
+
+    setTurnstileLogger(null);
+    renderParams.callback('token-2');
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(consoleWarn).not.toHaveBeenCalled();
+
+    resetTurnstileTelemetry();
+    expect(getTurnstileLogger()).toBe(console);
+  });
+});
@@ -0,0 +1,93 @@
+import type {
+  TurnstileClientEvent,
+  TurnstileEventListener,
+  TurnstileLogger,
+  TurnstileServerEvent,
+} from './types';
+
+const SILENT_LOGGER: TurnstileLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Key of the registry shared with `netlify/telemetry.js`, so the main entry, `./request`,
+ * `./middleware` and the Netlify helpers all use one logger and one set of listeners
+ */
+const STORE_KEY = Symbol.for('@purplebird/turnstile-client/telemetry');
+
+interface TelemetryStore {
+  listeners: Set<TurnstileEventListener>;
+  logger: TurnstileLogger | null;
+}
+
+function getStore(): TelemetryStore {
+  const scope = globalThis as unknown as Record<symbol, TelemetryStore | undefined>;
+  let store = scope[STORE_KEY];
+  if (!store) {
+    store = { listeners: new Set(), logger: null };
+    scope[STORE_KEY] = store;
+  }
+  return store;
+}
+
+/**
+ * Replaces the logger used by the client utilities and the server helpers. Pass null to
+ * silence them (e.g. in tests).
+ *
+ * @param logger - Logger with debug, info, warn and error methods, or null
+ */
+export function setTurnstileLogger(logger: TurnstileLogger | null): void {
+  getStore().logger = logger ?? SILENT_LOGGER;
+}
+
+/**
+ * Gets the current logger, console unless replaced with setTurnstileLogger()
+ */
+export function getTurnstileLogger(): TurnstileLogger {
+  // console is looked up on each call so test spies on it keep working
+  return getStore().logger ?? console;
+}
+
+/**
+ * Subscribes to telemetry events: widget render, token issued and expired, refresh, errors
+ * and time-to-token in the browser, verify-start and verify-result on the server.
+ *
+ * @param listener - Called with each event
+ * @returns Function that removes the listener
+ */
+export function onTurnstileEvent(listener: TurnstileEventListener): () => void {
+  const { listeners } = getStore();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Sends an event to every listener. A throwing listener is logged and does not affect the others.
+ */
+export function emitTurnstileEvent(event: TurnstileClientEvent | TurnstileServerEvent): void {
+  const { listeners } = getStore();
+  if (listeners.size === 0) return;
+
+  const timestamped = { ...event, timestamp: Date.now() };
+  for (const listener of [...listeners]) {
+    try {
+      listener(timestamped);
+    } catch (error) {
+      getTurnstileLogger().warn('Turnstile telemetry listener error:', error);
+    }
+  }
+}
+
+/**
+ * Removes every listener and restores the console logger. Intended for tests.
+ */
+export function resetTurnstileTelemetry(): void {
+  const store = getStore();
+  store.listeners.clear();
+  store.logger = null;
+}
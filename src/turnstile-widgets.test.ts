@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { destroyTurnstileWidgets, initTurnstileWidgets, setupTurnstileWidgets } from './turnstile-widgets';
+
+function createContainer(attributes: Record<string, string> = {}): HTMLElement {
+  const container = document.createElement('div');
+  container.className = 'cf-turnstile';
+  container.setAttribute('data-sitekey', 'site-key');
+  Object.entries(attributes).forEach(([name, value]) => container.setAttribute(name, value));
+  document.body.appendChild(container);
+  return container;
+}
+
+describe('turnstile-widgets', () => {
+  let mockTurnstile: any;
+  let originalTurnstile: any;
+  let nextId: number;
+
+  beforeEach(() => {
+    nextId = 0;
+    mockTurnstile = {
+      render: vi.fn(() => `widget-${++nextId}`),
+      reset: vi.fn(),
+      remove: vi.fn(),
+      getResponse: vi.fn(() => ''),
+      isExpired: vi.fn(() => false),
+    };
+    originalTurnstile = (window as any).turnstile;
+    (window as any).turnstile = mockTurnstile;
+  });
+
+  afterEach(() => {
+    destroyTurnstileWidgets();
+    document.body.innerHTML = '';
+    (window as any).turnstile = originalTurnstile;
+    vi.useRealTimers();
+  });
+
+  it('should render each container once with its data attributes', async () => {
+    const container = createContainer({ 'data-theme': 'dark', 'data-size': 'compact' });
+
+    await initTurnstileWidgets();
+    await initTurnstileWidgets();
+
+    expect(mockTurnstile.render).toHaveBeenCalledTimes(1);
+    expect(mockTurnstile.render).toHaveBeenCalledWith(
+      container,
+      expect.objectContaining({ sitekey: 'site-key', theme: 'dark', size: 'compact' })
+    );
+    expect(container.getAttribute('data-widget-id')).toBe('widget-1');
+  });
+
+  it('should map every supported data attribute to render params', async () => {
+    const container = createContainer({
+      'data-action': 'contact',
+      'data-cdata': 'session-1',
+      'data-language': 'es',
+      'data-tabindex': '2',
+      'data-size': 'flexible',
+      'data-appearance': 'interaction-only',
+      'data-execution': 'execute',
+      'data-retry': 'never',
+      'data-retry-interval': '5000',
+      'data-refresh-expired': 'manual',
+      'data-refresh-timeout': 'never',
+      'data-response-field': 'false',
+      'data-response-field-name': 'turnstile-token',
+      'data-feedback-enabled': 'true',
+    });
+
+    await initTurnstileWidgets();
+
+    expect(mockTurnstile.render).toHaveBeenCalledWith(container, {
+      sitekey: 'site-key',
+      action: 'contact',
+      cData: 'session-1',
+      language: 'es',
+      tabindex: 2,
+      size: 'flexible',
+      appearance: 'interaction-only',
+      execution: 'execute',
+      retry: 'never',
+      'retry-interval': 5000,
+      'refresh-expired': 'manual',
+      'refresh-timeout': 'never',
+      'response-field': false,
+      'response-field-name': 'turnstile-token',
+      'feedback-enabled': true,
+      callback: expect.any(Function),
+      'expired-callback': expect.any(Function),
+      'error-callback': expect.any(Function),
+      'timeout-callback': expect.any(Function),
+    });
+  });
+
+  it('should leave absent attributes to Cloudflare defaults', async () => {
+    createContainer();
+
+    await initTurnstileWidgets();
+
+    const params = mockTurnstile.render.mock.calls[0][1];
+    expect(Object.keys(params).filter((key) => typeof params[key] !== 'function')).toEqual(['sitekey']);
+  });
+
+  it('should render every widget on a page with several forms', async () => {
+    createContainer();
+    createContainer();
+
+    await initTurnstileWidgets();
+
+    expect(mockTurnstile.render).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start auto-refresh with the configured interval', async () => {
+    vi.useFakeTimers();
+    createContainer({ 'data-refresh-interval': '1000' });
+
+    await initTurnstileWidgets();
+    vi.advanceTimersByTime(1100);
+
+    expect(mockTurnstile.reset).toHaveBeenCalledWith('widget-1');
+  });
+
+  it('should remove widgets and stop refresh timers on destroy', async () => {
+    vi.useFakeTimers();
+    const container = createContainer({ 'data-refresh-interval': '1000' });
+
+    await initTurnstileWidgets();
+    destroyTurnstileWidgets();
+    vi.advanceTimersByTime(5000);
+
+    expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-1');
+    expect(mockTurnstile.reset).not.toHaveBeenCalled();
+    expect(container.hasAttribute('data-widget-id')).toBe(false);
+  });
+
+  it('should follow Astro view transition events', async () => {
+    setupTurnstileWidgets();
+    setupTurnstileWidgets();
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalledTimes(0));
+
+    // New page swapped in by the ClientRouter
+    createContainer();
+    document.dispatchEvent(new Event('astro:page-load'));
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalledTimes(1));
+
+    document.dispatchEvent(new Event('astro:before-swap'));
+    expect(mockTurnstile.remove).toHaveBeenCalledWith('widget-1');
+
+    document.body.innerHTML = '';
+    createContainer();
+    document.dispatchEvent(new Event('astro:page-load'));
+    await vi.waitFor(() => expect(mockTurnstile.render).toHaveBeenCalledTimes(2));
+  });
+});
@@ -0,0 +1,215 @@
+import type {
+  RefreshStrategy,
+  TurnstileAppearance,
+  TurnstileExecution,
+  TurnstileRefreshMode,
+  TurnstileRenderParams,
+  TurnstileRetry,
+  TurnstileSize,
+  TurnstileTheme,
+} from './types';
+import { setupAutoRefresh } from './turnstile-client';
+import { TurnstileController } from './turnstile-controller';
+import { loadTurnstile } from './turnstile-loader';
+import { getTurnstileLogger } from './turnstile-telemetry';
+import { turnstileRegistry } from './turnstile-registry';
+import { bindTurnstileStatus, hasTurnstileStatus, setTurnstileStatus } from './turnstile-status';
+
+/**
+ * Selector for widget containers emitted by TurnstileWidget.astro
+ */
+const WIDGET_SELECTOR = '.cf-turnstile[data-sitekey]';
+
+/**
+ * Attribute present on a form while attachTurnstileToForm() is submitting it
+ */
+export const SUBMITTING_ATTRIBUTE = 'data-turnstile-submitting';
+
+interface MountedWidget {
+  controller: TurnstileController;
+  stopRefresh: () => void;
+  unbindStatus: () => void;
+  unregister: () => void;
+}
+
+const mounted = new Map<HTMLElement, MountedWidget>();
+let lifecycleBound = false;
+
+/**
+ * Renders every Turnstile container under `root` that has not been rendered yet,
+ * reading its options from `data-*` attributes, starts auto-refresh for each and adds it to
+ * `turnstileRegistry` under the container's ID.
+ * Status regions show the script-blocked state, with a retry button, if the script fails to load.
+ * A `nonce` attribute on a container is set on the injected script, for pages with a strict CSP.
+ *
+ * @param root - Element or document to search (default: document)
+ * @returns Promise resolving once the widgets are rendered
+ */
+export async function initTurnstileWidgets(root: ParentNode = document): Promise<void> {
+  try {
+    await loadTurnstile({ nonce: findNonce(root) });
+  } catch (error) {
+    showScriptBlocked(root);
+    throw error;
+  }
+
+  root.querySelectorAll<HTMLElement>(WIDGET_SELECTOR).forEach((container) => {
+    if (mounted.has(container) || !container.isConnected) return;
+
+    const { dataset } = container;
+    const params = readRenderParams(container);
+    if (hasTurnstileStatus(container)) {
+      params['unsupported-callback'] = () => setTurnstileStatus(container, 'unsupported');
+    }
+    const controller = new TurnstileController(container, params);
+    const unbindStatus = bindTurnstileStatus(container, controller);
+
+    const widgetId = controller.render();
+    // Lets code written against the implicit-render markup find the widget
+    container.setAttribute('data-widget-id', widgetId);
+
+    const refreshInterval = Number(dataset.refreshInterval);
+    const stopRefresh = setupAutoRefresh(controller, {
+      strategy: dataset.refreshStrategy as RefreshStrategy | undefined,
+      refreshInterval: Number.isFinite(refreshInterval) && refreshInterval > 0 ? refreshInterval : undefined,
+      // Set by attachTurnstileToForm while a submit is in flight
+      isSubmitting: () => container.closest('form')?.hasAttribute(SUBMITTING_ATTRIBUTE) ?? false,
+    });
+
+    const unregister = turnstileRegistry.register(container, controller, {
+      responseFieldName: dataset.responseFieldName,
+      remove: () => unmount(container),
+    });
+
+    mounted.set(container, { controller, stopRefresh, unbindStatus, unregister });
+  });
+}
+
+function unmount(container: HTMLElement): void {
+  const widget = mounted.get(container);
+  if (!widget) return;
+
+  mounted.delete(container);
+  widget.unregister();
+  widget.stopRefresh();
+  widget.unbindStatus();
+  widget.controller.remove();
+  container.removeAttribute('data-widget-id');
+}
+
+function showScriptBlocked(root: ParentNode): void {
+  const retry = () => {
+    initTurnstileWidgets(root).catch((error) => {
+      getTurnstileLogger().error('Turnstile failed to load:', error);
+    });
+  };
+
+  root.querySelectorAll<HTMLElement>(WIDGET_SELECTOR).forEach((container) => {
+    if (mounted.has(container)) return;
+    setTurnstileStatus(container, 'script-blocked', {
+      onRetry: () => {
+        setTurnstileStatus(container, 'verifying');
+        retry();
+      },
+    });
+  });
+}
+
+/**
+ * Reads the CSP nonce from the first container that has one. Browsers blank the attribute once
+ * the page is parsed, leaving the value only on the `nonce` property.
+ */
+function findNonce(root: ParentNode): string | undefined {
+  const containers = Array.from(root.querySelectorAll<HTMLElement>(WIDGET_SELECTOR));
+  for (const container of containers) {
+    const nonce = container.nonce || container.getAttribute('nonce');
+    if (nonce) return nonce;
+  }
+  return undefined;
+}
+
+/**
+ * Builds render params from a container's `data-*` attributes, using the same
+ * attribute names as Cloudflare's implicit rendering. Absent attributes are left out
+ * so Cloudflare's defaults apply.
+ */
+function readRenderParams(container: HTMLElement): TurnstileRenderParams {
+  const { dataset } = container;
+  const params: TurnstileRenderParams = {
+    sitekey: dataset.sitekey!,
+    action: dataset.action,
+    cData: dataset.cdata,
+    theme: dataset.theme as TurnstileTheme | undefined,
+    size: dataset.size as TurnstileSize | undefined,
+    language: dataset.language,
+    tabindex: toNumber(dataset.tabindex),
+    appearance: dataset.appearance as TurnstileAppearance | undefined,
+    execution: dataset.execution as TurnstileExecution | undefined,
+    retry: dataset.retry as TurnstileRetry | undefined,
+    'retry-interval': toNumber(dataset.retryInterval),
+    'refresh-expired': dataset.refreshExpired as TurnstileRefreshMode | undefined,
+    'refresh-timeout': dataset.refreshTimeout as TurnstileRefreshMode | undefined,
+    'response-field': toBoolean(dataset.responseField),
+    'response-field-name': dataset.responseFieldName,
+    'feedback-enabled': toBoolean(dataset.feedbackEnabled),
+  };
+
+  (Object.keys(params) as Array<keyof TurnstileRenderParams>).forEach((key) => {
+    if (params[key] === undefined) delete params[key];
+  });
+  return params;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  return value !== 'false';
+}
+
+/**
+ * Gets the controller of a widget rendered by initTurnstileWidgets()
+ * @param container - Widget container element
+ * @returns The controller, or null if the container has not been rendered
+ */
+export function getMountedController(container: HTMLElement): TurnstileController | null {
+  return mounted.get(container)?.controller ?? null;
+}
+
+/**
+ * Removes every widget rendered by initTurnstileWidgets() and stops its refresh timers.
+ */
+export function destroyTurnstileWidgets(): void {
+  Array.from(mounted.keys()).forEach(unmount);
+}
+
+/**
+ * Page-level bootstrap used by TurnstileWidget.astro. Renders the widgets on the current page
+ * and, for sites using Astro's `<ClientRouter />`, re-renders them after every navigation
+ * (`astro:page-load`) and tears them down before the old page is swapped out (`astro:before-swap`).
+ * Safe to call more than once.
+ */
+export function setupTurnstileWidgets(): void {
+  if (lifecycleBound) return;
+  lifecycleBound = true;
+
+  const init = () => {
+    initTurnstileWidgets().catch((error) => {
+      getTurnstileLogger().error('Turnstile failed to load:', error);
+    });
+  };
+
+  document.addEventListener('astro:page-load', init);
+  document.addEventListener('astro:before-swap', destroyTurnstileWidgets);
+
+  // Without view transitions astro:page-load never fires, so render the initial page directly
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', init, { once: true });
+  } else {
+    init();
+  }
+}
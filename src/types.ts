@@ -1,3 +1,5 @@
+import type { TurnstileController } from './turnstile-controller';
+
 /**
  * Cloudflare Turnstile widget theme
  */
@@ -6,7 +8,27 @@ export type TurnstileTheme = 'light' | 'dark' | 'auto';
 /**
  * Cloudflare Turnstile widget size
  */
-export type TurnstileSize = 'normal' | 'compact';
+export type TurnstileSize = 'normal' | 'compact' | 'flexible';
+
+/**
+ * When the widget is visible
+ */
+export type TurnstileAppearance = 'always' | 'execute' | 'interaction-only';
+
+/**
+ * Whether the challenge runs on render or waits for execute()
+ */
+export type TurnstileExecution = 'render' | 'execute';
+
+/**
+ * Automatic retry behaviour on failure
+ */
+export type TurnstileRetry = 'auto' | 'never';
+
+/**
+ * Automatic refresh behaviour for expired tokens and timed-out interactive challenges
+ */
+export type TurnstileRefreshMode = 'auto' | 'manual' | 'never';
 
 /**
  * Props for the TurnstileWidget Astro component
@@ -22,20 +44,691 @@ export interface TurnstileWidgetProps {
   size?: TurnstileSize;
   /** Refresh interval in milliseconds (default: 120000 = 2 minutes) */
   refreshInterval?: number;
+  /** Refresh strategy (default: 'interval') */
+  refreshStrategy?: RefreshStrategy;
+  /** Action name, returned by siteverify (max 32 alphanumeric, '_' or '-' characters) */
+  action?: string;
+  /** Customer data, returned by siteverify (max 255 alphanumeric, '_' or '-' characters) */
+  cData?: string;
+  /** Widget language code, or 'auto' (default: 'auto') */
+  language?: string;
+  /** Tab index of the widget iframe */
+  tabindex?: number;
+  /** When the widget is visible (default: 'always') */
+  appearance?: TurnstileAppearance;
+  /** Whether the challenge runs on render or waits for execute() (default: 'render') */
+  execution?: TurnstileExecution;
+  /** Automatic retry on failure (default: 'auto') */
+  retry?: TurnstileRetry;
+  /** Milliseconds between automatic retries (default: 8000) */
+  retryInterval?: number;
+  /** Automatic refresh of expired tokens (default: 'auto') */
+  refreshExpired?: TurnstileRefreshMode;
+  /** Automatic refresh of timed-out interactive challenges (default: 'auto') */
+  refreshTimeout?: TurnstileRefreshMode;
+  /** Whether to create the hidden response input (default: true) */
+  responseField?: boolean;
+  /** Name of the hidden response input (default: 'cf-turnstile-response') */
+  responseFieldName?: string;
+  /** Whether to allow feedback reports to Cloudflare on failure (default: true) */
+  feedbackEnabled?: boolean;
+  /** Key checking mode (default: detected from import.meta.env) */
+  mode?: TurnstileMode;
+  /** Allow Cloudflare test keys in production mode, e.g. for a staging build (default: false) */
+  allowTestKeys?: boolean;
+  /** Render an `aria-live` status region with a retry button below the widget (default: false) */
+  showStatus?: boolean;
+  /** CSP nonce set on Cloudflare's api.js; Astro's bundled client script cannot carry one */
+  nonce?: string;
+  /** Emit the component's script; pass false to call setupTurnstileWidgets() from your own. Astro 5+ only, as earlier versions hoist it regardless (default: true) */
+  includeScript?: boolean;
 }
 
+/**
+ * State shown by the status region of TurnstileWidget.astro, also set as its `data-state`
+ * - `verifying`: challenge running, including after a retry
+ * - `verified`: token issued
+ * - `expired`: token expired; Turnstile re-verifies unless `refreshExpired` is 'manual'
+ * - `failed`: challenge errored or timed out
+ * - `script-blocked`: the Turnstile script could not load
+ * - `unsupported`: the browser cannot run the challenge
+ */
+export type TurnstileStatusRegionState =
+  | 'verifying'
+  | 'verified'
+  | 'expired'
+  | 'failed'
+  | 'script-blocked'
+  | 'unsupported';
+
+/**
+ * How auto-refresh decides when to reset the widget
+ * - `interval`: reset every `refreshInterval`, regardless of token state
+ * - `expiry`: reset only when the token is stale or expired and the tab is visible
+ */
+export type RefreshStrategy = 'interval' | 'expiry';
+
 /**
  * Options for auto-refresh functionality
  */
 export interface AutoRefreshOptions {
-  /** Refresh interval in milliseconds (default: 120000 = 2 minutes) */
+  /** Refresh strategy (default: 'interval') */
+  strategy?: RefreshStrategy;
+  /** Refresh interval in milliseconds, used by the 'interval' strategy (default: 120000 = 2 minutes) */
   refreshInterval?: number;
+  /** Age in milliseconds after which a token is refreshed, used by the 'expiry' strategy (default: 270000 = 4.5 minutes) */
+  maxTokenAge?: number;
+  /** Returns true while a submit is in flight; the widget is never reset while it does */
+  isSubmitting?: () => boolean;
   /** Callback function called when widget is refreshed */
   onRefresh?: () => void;
   /** Callback function called if refresh fails */
   onError?: (error: Error) => void;
 }
 
+/**
+ * How strictly keys are checked. In `production` a missing, malformed or test key is an error;
+ * in `development` a missing key falls back to the test key.
+ */
+export type TurnstileMode = 'development' | 'production';
+
+/**
+ * Options for resolveSiteKey
+ */
+export interface ResolveSiteKeyOptions {
+  /** Key checking mode (default: detected from import.meta.env, then NODE_ENV) */
+  mode?: TurnstileMode;
+  /** Allow Cloudflare test keys in production mode (default: false) */
+  allowTestKeys?: boolean;
+}
+
+/**
+ * Options for resolveSecretKey
+ */
+export interface ResolveSecretKeyOptions {
+  /** Key checking mode (default: production when NODE_ENV or Netlify's CONTEXT is 'production') */
+  mode?: TurnstileMode;
+  /** Site key the secret is used with (default: PUBLIC_TURNSTILE_SITE_KEY), to catch a test secret paired with a real site key */
+  siteKey?: string;
+  /** Allow Cloudflare test keys in production mode (default: false) */
+  allowTestKeys?: boolean;
+}
+
+/**
+ * Reason a Turnstile verification was rejected
+ */
+export type VerificationFailureReason =
+  | 'missing-secret'
+  | 'misconfigured'
+  | 'missing-token'
+  | 'siteverify-rejected'
+  | 'siteverify-unavailable'
+  | 'siteverify-timeout'
+  | 'verification-error'
+  | 'hostname-mismatch'
+  | 'action-mismatch'
+  | 'token-too-old'
+  | 'token-already-used'
+  | 'rate-limited';
+
+/**
+ * Kind of problem behind a Turnstile error code
+ *
+ * - configuration: site key, secret key, domain or render parameters are wrong (fix the setup)
+ * - challenge: the visitor failed the challenge or sent invalid data (possibly a bot)
+ * - timeout: the challenge or the visitor took too long
+ * - browser: the visitor's browser or device cannot run the challenge
+ * - token: the token is missing, expired or already used
+ * - network: the Turnstile script could not be loaded
+ * - internal: a problem on Cloudflare's side
+ * - unknown: a code not in the catalog
+ */
+export type TurnstileErrorCategory =
+  | 'configuration'
+  | 'challenge'
+  | 'timeout'
+  | 'browser'
+  | 'token'
+  | 'network'
+  | 'internal'
+  | 'unknown';
+
+/**
+ * Error codes siteverify returns in `error-codes`
+ */
+export type SiteverifyErrorCode =
+  | 'missing-input-secret'
+  | 'invalid-input-secret'
+  | 'missing-input-response'
+  | 'invalid-input-response'
+  | 'bad-request'
+  | 'timeout-or-duplicate'
+  | 'internal-error';
+
+/**
+ * Structured description of a Turnstile client error code or siteverify error code
+ */
+export interface TurnstileErrorInfo {
+  /** Error code as reported by Turnstile (e.g. '110200' or 'timeout-or-duplicate') */
+  code: string;
+  /** Kind of problem */
+  category: TurnstileErrorCategory;
+  /** Whether trying again (a new challenge or request) may succeed */
+  retryable: boolean;
+  /** What went wrong and how to fix it, for logs */
+  developerMessage: string;
+  /** Message safe to show to the visitor */
+  userMessage: string;
+}
+
+/**
+ * Visitor-facing text used in the browser: widget status and the error catalog's user messages
+ */
+export interface TurnstileClientMessages {
+  /** Status while the challenge runs */
+  verifying: string;
+  /** Status once a token was issued */
+  verified: string;
+  /** Status once the token expired */
+  expired: string;
+  /** Label of the retry button */
+  retry: string;
+  /** Challenge failed (possibly a bot) */
+  failed: string;
+  /** Configuration problem the visitor cannot fix */
+  unavailable: string;
+  /** Turnstile could not start */
+  reload: string;
+  /** Browser too old for the challenge */
+  unsupportedBrowser: string;
+  /** Browser reported conflicting identities */
+  inconsistentBrowser: string;
+  /** Challenge timed out */
+  timedOut: string;
+  /** Device clock is wrong */
+  clock: string;
+  /** Turnstile script could not be loaded */
+  scriptBlocked: string;
+  /** Form submitted without a token */
+  completeChallenge: string;
+  /** Token expired or already used */
+  tokenExpired: string;
+  /** Cloudflare-side problem */
+  temporarilyUnavailable: string;
+}
+
+/**
+ * Error strings returned by the server helpers
+ */
+export interface TurnstileServerMessages {
+  /** Secret key missing or invalid */
+  notConfigured: string;
+  /** No token in the request */
+  missingToken: string;
+  /** Token rejected */
+  failed: string;
+  /** siteverify could not be reached */
+  error: string;
+  /** Configuration problem the visitor cannot fix */
+  unavailable: string;
+  /** Form submitted without a token */
+  completeChallenge: string;
+  /** Token expired or already used */
+  tokenExpired: string;
+  /** Cloudflare-side problem */
+  temporarilyUnavailable: string;
+  /** Too many failed verifications */
+  rateLimited: string;
+}
+
+/**
+ * Catalog entry without the developer message, as sent in failure responses
+ */
+export type TurnstilePublicErrorDetails = Omit<TurnstileErrorInfo, 'developerMessage'>;
+
+/**
+ * Raw response body returned by Cloudflare's siteverify endpoint
+ */
+export interface SiteverifyResponse {
+  success: boolean;
+  'error-codes'?: string[];
+  challenge_ts?: string;
+  hostname?: string;
+  action?: string;
+  cdata?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Storage for hashes of tokens that have already been presented.
+ * Implementations may be synchronous (in-memory) or asynchronous (Netlify Blobs, Redis).
+ */
+export interface ReplayStore {
+  /**
+   * Record a key if it is not already present
+   * @param key - Token hash
+   * @param ttl - Time in milliseconds to remember the key
+   * @returns Whether the key was newly added (false means it was already used)
+   */
+  add(key: string, ttl: number): boolean | Promise<boolean>;
+
+  /**
+   * Forget a key, e.g. when verification could not be completed
+   * @param key - Token hash
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Storage for the failed verifications counted by a rate limiter.
+ * Implementations may be synchronous (in-memory) or asynchronous (Netlify Blobs, Redis).
+ */
+export interface RateLimitStore {
+  /**
+   * Get the failures recorded for a key
+   * @param key - Client key, e.g. 'ip:203.0.113.7' or 'token:0.AbCdEf'
+   * @returns Failure timestamps in milliseconds; ones older than the window are ignored
+   */
+  get(key: string): number[] | Promise<number[]>;
+
+  /**
+   * Record a failure
+   * @param key - Client key
+   * @param timestamp - Time of the failure in milliseconds
+   * @param ttl - Time in milliseconds the failure must be kept (the window)
+   */
+  add(key: string, timestamp: number, ttl: number): void | Promise<void>;
+}
+
+/**
+ * Options for createRateLimiter
+ */
+export interface RateLimiterOptions {
+  /** Failed verifications allowed per client within the window (default: 10) */
+  maxFailures?: number;
+  /** Sliding window in milliseconds (default: 600000 = 10 minutes) */
+  window?: number;
+  /** Also count failures per token prefix of this length, e.g. 10 (default: 0, off) */
+  tokenPrefixLength?: number;
+  /** Where failures are kept (default: an in-memory store) */
+  store?: RateLimitStore;
+  /** Clock (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Client a rate limiter counts failures for
+ */
+export interface RateLimitClient {
+  /** Client IP; failures are not counted per IP without one */
+  ip?: string | null;
+  /** Token presented by the client */
+  token?: string | null;
+}
+
+/**
+ * Counts failed verifications per client and tells whether a client is over the limit
+ */
+export interface TurnstileRateLimiter {
+  /**
+   * Check whether a client has reached the limit
+   * @returns Whether it is limited, and the seconds until it may try again (0 when not limited)
+   */
+  check(client: RateLimitClient): Promise<{ limited: boolean; retryAfter: number }>;
+
+  /**
+   * Count a failed verification against a client
+   */
+  recordFailure(client: RateLimitClient): Promise<void>;
+}
+
+/**
+ * Options for server-side Turnstile token verification
+ */
+export interface VerifyTurnstileOptions {
+  /** Hostname (or allowlist of hostnames) the token must have been issued on */
+  expectedHostname?: string | string[];
+  /** Action (or list of actions) the widget must have been rendered with */
+  expectedAction?: string | string[];
+  /** Maximum age of the token in milliseconds, measured from `challenge_ts` */
+  maxTokenAge?: number;
+  /** Clock used for the token age check (default: Date.now) */
+  now?: () => number;
+  /** Store used to reject tokens that have already been presented (opt-in) */
+  replayStore?: ReplayStore;
+  /** How long a used token is remembered in milliseconds (default: 300000 = 5 minutes) */
+  replayTtl?: number;
+  /** Limiter that answers clients with too many failed verifications with `rate-limited` (opt-in) */
+  rateLimiter?: TurnstileRateLimiter;
+  /** Timeout for each siteverify request, including reading its body, in milliseconds (default: 5000) */
+  timeout?: number;
+  /** Number of retries on network errors, timeouts and 5xx responses (default: 0) */
+  retries?: number;
+  /** Base delay between retries in milliseconds, doubled on each attempt (default: 250) */
+  retryDelay?: number;
+  /** Siteverify endpoint URL (default: Cloudflare's production endpoint) */
+  siteverifyUrl?: string;
+  /** Fetch implementation used for siteverify requests (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Idempotency key sent with the request (default: a random UUID when retries are enabled) */
+  idempotencyKey?: string;
+  /** Logger for this call (default: the logger set with setTurnstileLogger) */
+  logger?: TurnstileLogger;
+  /**
+   * Locale of the returned error messages, e.g. 'es' or 'fr-CA' (default: 'en'; withTurnstile and
+   * verifyRequest default to the request's Accept-Language header)
+   */
+  locale?: string;
+}
+
+/**
+ * How the mock siteverify answers a request: `from-secret` follows Cloudflare's dummy secret keys
+ */
+export type MockSiteverifyScenario =
+  | 'from-secret'
+  | 'pass'
+  | 'fail'
+  | 'duplicate'
+  | 'timeout'
+  | 'server-error'
+  | { type: 'pass'; data?: Partial<SiteverifyResponse> }
+  | { type: 'fail'; errorCodes?: string[] };
+
+/**
+ * Options for createMockSiteverify
+ */
+export interface MockSiteverifyOptions {
+  /** Scenario used when nothing is queued (default: 'from-secret') */
+  scenario?: MockSiteverifyScenario;
+  /** Hostname reported for passing tokens (default: 'example.com') */
+  hostname?: string;
+  /** Clock used for `challenge_ts` (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Request received by the mock siteverify
+ */
+export interface MockSiteverifyRequest {
+  secret: string | null;
+  response: string | null;
+  remoteip: string | null;
+  idempotencyKey: string | null;
+}
+
+/**
+ * Offline stand-in for siteverify returned by createMockSiteverify
+ */
+export interface MockSiteverify {
+  /** Drop-in for verifyTurnstile's `fetch` option */
+  fetch: typeof fetch;
+  /** Fetch API handler for serving the mock locally */
+  handler: (request: Request) => Promise<Response>;
+  /** Requests received so far */
+  requests: MockSiteverifyRequest[];
+  /** Sets the scenario used when nothing is queued */
+  respondWith: (scenario: MockSiteverifyScenario) => void;
+  /** Scripts the answers to the next requests, in order */
+  queue: (...scenarios: MockSiteverifyScenario[]) => void;
+  /** Restores the default scenario and clears the queue and recorded requests */
+  reset: () => void;
+}
+
+/**
+ * Netlify function event, as seen by the server helpers
+ */
+export interface NetlifyFunctionEvent {
+  httpMethod: string;
+  headers: Record<string, string | undefined>;
+  body: string | null;
+  isBase64Encoded?: boolean;
+  /** Verification result, set by withTurnstile before the handler is called */
+  turnstile?: VerificationResult;
+}
+
+/**
+ * Netlify function response
+ */
+export interface NetlifyFunctionResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Options for parseTurnstileRequest
+ */
+export interface ParseTurnstileRequestOptions {
+  /** Maximum size of each uploaded file in bytes (default: 4194304 = 4 MB) */
+  maxFileSize?: number;
+}
+
+/**
+ * A multipart file upload, buffered in memory
+ */
+export interface TurnstileUploadedFile {
+  /** Form field the file was submitted under */
+  fieldName: string;
+  filename: string;
+  mimeType: string;
+  encoding: string;
+  /** Size in bytes */
+  size: number;
+  content: Buffer;
+}
+
+/**
+ * Result of parseTurnstileRequest
+ */
+export interface ParsedTurnstileRequest {
+  /** Turnstile token from the header or body, or null */
+  token: string | null;
+  /** Body fields without the token: strings (arrays for repeated names) for forms, parsed values for JSON */
+  fields: Record<string, any>;
+  /** Uploaded files (multipart bodies only) */
+  files: TurnstileUploadedFile[];
+}
+
+/**
+ * CORS settings for withTurnstile preflight responses and the headers added to every response
+ */
+export interface TurnstileCorsOptions {
+  /** Allowed origin, e.g. 'https://example.com' (pass '*' explicitly to allow any origin) */
+  origin: string;
+  /** Allowed methods (default: GET, POST, OPTIONS) */
+  methods?: string[];
+  /** Allowed request headers (default: Content-Type, X-Turnstile-Token) */
+  headers?: string[];
+  /** How long a preflight may be cached in seconds (default: 86400) */
+  maxAge?: number;
+}
+
+/**
+ * Options for withTurnstile. Remaining options are passed to verifyTurnstile.
+ */
+export interface WithTurnstileOptions extends VerifyTurnstileOptions, ResolveSecretKeyOptions {
+  /** Turnstile secret key, checked by resolveSecretKey (default: TURNSTILE_SECRET_KEY; pass a test secret explicitly to test locally) */
+  secretKey?: string;
+  /** Methods passed to the handler without verification (default: ['GET', 'HEAD']) */
+  skipMethods?: string[];
+  /** Redirect failed requests here with `turnstile_error` appended, instead of a JSON response */
+  redirectTo?: string;
+  /** Builds the response for a failed verification, replacing the default JSON or redirect response */
+  onFailure?: (
+    verification: VerificationResult,
+    event: NetlifyFunctionEvent
+  ) => NetlifyFunctionResponse | Promise<NetlifyFunctionResponse>;
+  /** CORS settings; off by default, passing OPTIONS requests to the handler and adding no CORS headers */
+  cors?: TurnstileCorsOptions | false;
+  /** How the client IP sent to siteverify is read from the request headers */
+  clientIp?: ClientIpOptions;
+}
+
+/**
+ * Options for getClientIp
+ */
+export interface ClientIpOptions {
+  /**
+   * Headers to read the client IP from, in order (default: ['x-nf-client-connection-ip', 'x-forwarded-for']).
+   * Add 'cf-connecting-ip' or 'x-real-ip' only behind Cloudflare or nginx, which overwrite them
+   */
+  headers?: string[];
+  /**
+   * Proxies in front of the function that append to X-Forwarded-For; the client is the entry this
+   * many places from the right. 0 trusts the whole chain and takes the leftmost entry (default: 1)
+   */
+  trustedProxies?: number;
+}
+
+/**
+ * Options for verifyRequest. Remaining options are passed to verifyTurnstile.
+ */
+export interface VerifyRequestOptions extends VerifyTurnstileOptions, ResolveSecretKeyOptions {
+  /** Turnstile secret key, checked by resolveSecretKey (default: TURNSTILE_SECRET_KEY; pass a test secret explicitly to test locally) */
+  secretKey?: string;
+  /** Client IP sent to siteverify (default: getClientIp(request, clientIp)) */
+  remoteIp?: string | null;
+  /** How the client IP is read from the request headers when `remoteIp` is not given */
+  clientIp?: ClientIpOptions;
+}
+
+/**
+ * The parts of Astro's middleware context used by createTurnstileMiddleware
+ */
+export interface TurnstileMiddlewareContext {
+  request: Request;
+  url: URL;
+  locals: Record<string, any>;
+}
+
+/**
+ * Options for createTurnstileMiddleware. Remaining options are passed to verifyTurnstile.
+ */
+export interface TurnstileMiddlewareOptions extends VerifyRequestOptions {
+  /** Paths to protect: exact paths, prefixes ending in `*` (e.g. '/api/*') or patterns, matched against the decoded path without a trailing slash */
+  routes: Array<string | RegExp>;
+  /** Methods passed through without verification (default: ['GET', 'HEAD', 'OPTIONS']) */
+  skipMethods?: string[];
+  /** Builds the response for a failed verification (default: createTurnstileFailureResponse) */
+  onFailure?: (
+    verification: VerificationResult,
+    context: TurnstileMiddlewareContext
+  ) => Response | Promise<Response>;
+}
+
+/**
+ * Value returned by a fetch-based submit handler.
+ * The widget is reset after the handler whatever it returns.
+ */
+export type SubmitOutcome = Response | { ok: boolean } | boolean | void;
+
+/**
+ * Options for attachTurnstileToForm
+ */
+export interface AttachToFormOptions {
+  /** Controller of the form's widget (default: the widget rendered inside the form) */
+  controller?: TurnstileController;
+  /** Time to wait for a token in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Fetch-based submit handler; when given, every submit is intercepted and the token passed to it */
+  onSubmit?: (token: string, event: SubmitEvent) => SubmitOutcome | Promise<SubmitOutcome>;
+  /** Callback function called if no token could be obtained or onSubmit throws */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Widget tracked by the widget registry
+ */
+export interface RegisteredTurnstileWidget {
+  /** Registry key: the container's ID, or a generated one if it has none */
+  id: string;
+  /** Element the widget is rendered in */
+  container: HTMLElement;
+  /** Controller of the widget */
+  controller: TurnstileController;
+  /** Name of the form field carrying the widget's token */
+  responseFieldName: string;
+}
+
+/**
+ * Options for TurnstileWidgetRegistry.register
+ */
+export interface RegisterTurnstileWidgetOptions {
+  /** Name of the form field carrying the widget's token (default: 'cf-turnstile-response') */
+  responseFieldName?: string;
+  /** Tears the widget down for removeAll() (default: removes the controller) */
+  remove?: () => void;
+}
+
+/**
+ * Options for turnstileFetch
+ */
+export interface TurnstileFetchOptions {
+  /** Widget supplying the token: a controller, or a registered container or the form containing it */
+  widget: TurnstileController | HTMLElement;
+  /** Time to wait for a token in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Decides whether a response is a Turnstile rejection worth one retry with a new token */
+  isTurnstileFailure?: (response: Response) => boolean | Promise<boolean>;
+}
+
+/**
+ * Lifecycle state of a widget rendered by useTurnstile
+ * - `loading`: script loading or widget not yet rendered
+ * - `ready`: rendered, waiting for the challenge
+ * - `solved`: a valid token is available
+ * - `expired`: the token expired and a new challenge is pending
+ * - `error`: the script failed to load or the challenge errored
+ */
+export type TurnstileStatus = 'loading' | 'ready' | 'solved' | 'expired' | 'error';
+
+/**
+ * Options for the useTurnstile hook and Turnstile React component
+ */
+export interface UseTurnstileOptions extends Omit<TurnstileRenderParams, 'sitekey' | 'callback' | 'expired-callback' | 'error-callback' | 'timeout-callback'> {
+  /** Cloudflare Turnstile site key (falls back to the test key when empty) */
+  siteKey?: string;
+  /** Refresh strategy (default: 'interval') */
+  refreshStrategy?: RefreshStrategy;
+  /** Refresh interval in milliseconds (default: 120000 = 2 minutes) */
+  refreshInterval?: number;
+  /** Callback function called when challenge succeeds */
+  onToken?: (token: string) => void;
+  /** Callback function called when the token expires */
+  onExpire?: () => void;
+  /** Callback function called when the challenge errors, with the code and its catalog entry */
+  onError?: (error: string, details: TurnstileErrorInfo) => void;
+}
+
+/**
+ * Options for loading the Turnstile script
+ */
+export interface LoadTurnstileOptions {
+  /** Time to wait for the API to become ready in milliseconds (default: 30000) */
+  timeout?: number;
+  /** CSP nonce set on the injected script (ignored when the script is already on the page) */
+  nonce?: string;
+}
+
+/**
+ * Content-Security-Policy sources Turnstile needs, by directive
+ */
+export interface TurnstileCspDirectives {
+  'script-src': string[];
+  'frame-src': string[];
+  'connect-src': string[];
+}
+
+/**
+ * Options for getTurnstileCspDirectives()
+ */
+export interface TurnstileCspOptions {
+  /** Nonce to allow in `script-src`, as passed to the widget's `nonce` prop */
+  nonce?: string;
+}
+
 /**
  * Result of Turnstile token verification
  */
@@ -44,6 +737,24 @@ export interface VerificationResult {
   success: boolean;
   /** Error message if verification failed */
   error?: string;
+  /** Machine-readable reason if verification failed */
+  reason?: VerificationFailureReason;
+  /** Error codes returned by siteverify */
+  errorCodes?: string[];
+  /** Catalog entries for the error codes, or for the siteverify code matching the failure reason */
+  errorDetails?: TurnstileErrorInfo[];
+  /** Seconds until a `rate-limited` client may try again */
+  retryAfter?: number;
+  /** Hostname the token was issued on */
+  hostname?: string;
+  /** Action the widget was rendered with */
+  action?: string;
+  /** Customer data the widget was rendered with */
+  cdata?: string;
+  /** ISO timestamp of when the challenge was solved */
+  challenge_ts?: string;
+  /** Additional metadata returned by siteverify (e.g. ephemeral ID) */
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -83,6 +794,19 @@ export interface TurnstileAPI {
    * @returns Whether the widget is expired
    */
   isExpired(widgetId: string): boolean;
+
+  /**
+   * Run the challenge for a widget rendered with `execution: 'execute'`
+   * @param container - Container element, selector or widget ID
+   * @param params - Widget parameters (renders the widget if not yet rendered)
+   */
+  execute(container: string | HTMLElement, params?: TurnstileRenderParams): void;
+
+  /**
+   * Run a callback once the API is ready (only with a synchronously loaded script)
+   * @param callback - Function to run
+   */
+  ready(callback: () => void): void;
 }
 
 /**
@@ -91,26 +815,114 @@ export interface TurnstileAPI {
 export interface TurnstileRenderParams {
   /** Site key */
   sitekey: string;
+  /** Action name, returned by siteverify */
+  action?: string;
+  /** Customer data, returned by siteverify */
+  cData?: string;
   /** Callback function called when challenge succeeds */
   callback?: (token: string) => void;
   /** Callback function called when challenge expires */
   'expired-callback'?: () => void;
   /** Callback function called when challenge errors */
   'error-callback'?: (error: string) => void;
+  /** Callback function called when an interactive challenge times out */
+  'timeout-callback'?: () => void;
+  /** Callback function called before the challenge enters interactive mode */
+  'before-interactive-callback'?: () => void;
+  /** Callback function called when the challenge leaves interactive mode */
+  'after-interactive-callback'?: () => void;
+  /** Callback function called when the browser is not supported */
+  'unsupported-callback'?: () => void;
   /** Widget theme */
   theme?: TurnstileTheme;
   /** Widget size */
   size?: TurnstileSize;
-  /** Language code */
+  /** Language code, or 'auto' */
   language?: string;
   /** Tab index */
   tabindex?: number;
   /** Appearance mode */
-  appearance?: 'always' | 'execute' | 'interaction-only';
+  appearance?: TurnstileAppearance;
   /** Execution mode */
-  execution?: 'render' | 'execute';
+  execution?: TurnstileExecution;
+  /** Automatic retry on failure */
+  retry?: TurnstileRetry;
+  /** Milliseconds between automatic retries (max 900000) */
+  'retry-interval'?: number;
+  /** Automatic refresh of expired tokens */
+  'refresh-expired'?: TurnstileRefreshMode;
+  /** Automatic refresh of timed-out interactive challenges */
+  'refresh-timeout'?: TurnstileRefreshMode;
+  /** Whether to create the hidden response input */
+  'response-field'?: boolean;
+  /** Name of the hidden response input */
+  'response-field-name'?: string;
+  /** Whether to allow feedback reports to Cloudflare on failure */
+  'feedback-enabled'?: boolean;
 }
 
+/**
+ * Events emitted by TurnstileController, mapped to their payloads
+ */
+export interface TurnstileControllerEventMap {
+  /** Challenge succeeded; payload is the token */
+  token: string;
+  /** Token expired */
+  expired: void;
+  /** Challenge errored; payload is the Cloudflare error code */
+  error: string;
+  /** Interactive challenge timed out */
+  timeout: void;
+}
+
+/**
+ * Logger used by the client utilities and server helpers (default: console)
+ */
+export interface TurnstileLogger {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+/**
+ * Telemetry events emitted in the browser
+ */
+export type TurnstileClientEvent =
+  | { type: 'script-error'; message: string }
+  | { type: 'widget-render'; widgetId: string; action?: string }
+  | { type: 'token-issued'; widgetId: string; action?: string; timeToToken: number }
+  | { type: 'token-expired'; widgetId: string }
+  | { type: 'widget-refresh'; widgetId: string; strategy: RefreshStrategy }
+  | { type: 'widget-error'; widgetId: string; code: string }
+  | { type: 'widget-timeout'; widgetId: string };
+
+/**
+ * Telemetry events emitted by the server helpers
+ */
+export type TurnstileServerEvent =
+  | { type: 'verify-start'; hasToken: boolean }
+  | {
+      type: 'verify-result';
+      success: boolean;
+      reason?: VerificationFailureReason;
+      errorCodes: string[];
+      hostname?: string;
+      action?: string;
+      /** Time taken by verifyTurnstile in milliseconds */
+      latency: number;
+    };
+
+/**
+ * A telemetry event with the time it was emitted (ms since the epoch)
+ */
+export type TurnstileTelemetryEvent = (TurnstileClientEvent | TurnstileServerEvent) & { timestamp: number };
+
+/**
+ * Receives telemetry events, e.g. to forward them to analytics
+ */
+export type TurnstileEventListener = (event: TurnstileTelemetryEvent) => void;
+
 /**
  * Global window interface augmentation for Turnstile
  */